@@ -0,0 +1,76 @@
+import { createHash } from "node:crypto";
+import { readdirSync, readFileSync, statSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { Plugin } from "vite";
+
+const pluginDir = path.dirname(fileURLToPath(import.meta.url));
+
+const TEMPLATE = path.join(pluginDir, "service-worker.js");
+
+// Public files that are not needed to run the app offline
+const EXCLUDED_PUBLIC_FILES = new Set(["robots.txt"]);
+
+interface PrecacheManifest {
+  version: string;
+  urls: string[];
+}
+
+// Names the cache after the consumption data it holds (years and record
+// count from its metadata) plus a hash of every precached file, so updating a
+// dataset or the app busts the cache while identical builds share it.
+function getVersion(publicDir: string, publicFiles: string[], assets: string[]): string {
+  const { metadata } = JSON.parse(
+    readFileSync(path.join(publicDir, "gas_consumption.json"), "utf-8")
+  );
+  const hash = createHash("sha256");
+  for (const file of publicFiles) {
+    hash.update(file).update(readFileSync(path.join(publicDir, file)));
+  }
+  for (const asset of assets) hash.update(asset);
+
+  return `${metadata.years_covered}-${metadata.records_count}-${hash.digest("hex").slice(0, 10)}`;
+}
+
+// Emits sw.js, precaching the app shell, the hashed bundle and the datasets
+// in public/. Only runs for production builds; the dev server has no worker.
+export function precache(): Plugin {
+  let publicDir = "";
+
+  return {
+    name: "precache",
+    apply: "build",
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_options, bundle) {
+      // Subdirectories such as public/models are included
+      const publicFiles = readdirSync(publicDir, { recursive: true, encoding: "utf-8" })
+        .map((file) => file.split(path.sep).join("/"))
+        .filter(
+          (file) =>
+            !EXCLUDED_PUBLIC_FILES.has(file) && statSync(path.join(publicDir, file)).isFile()
+        )
+        .sort();
+      const assets = Object.keys(bundle)
+        .filter((file) => file !== "index.html" && !file.endsWith(".map"))
+        .sort();
+
+      const manifest: PrecacheManifest = {
+        version: getVersion(publicDir, publicFiles, assets),
+        urls: ["/index.html", ...assets, ...publicFiles].map((file) =>
+          file.startsWith("/") ? file : `/${file}`
+        ),
+      };
+
+      this.emitFile({
+        type: "asset",
+        fileName: "sw.js",
+        source: readFileSync(TEMPLATE, "utf-8").replace(
+          "__PRECACHE_MANIFEST__",
+          JSON.stringify(manifest)
+        ),
+      });
+    },
+  };
+}
@@ -0,0 +1,62 @@
+// Service worker template. The build fills in the manifest below with the app
+// shell and dataset URLs and a version derived from the data (see
+// plugins/precache.ts), so a new dataset or build yields a new worker and a
+// fresh cache.
+const { version, urls } = __PRECACHE_MANIFEST__;
+
+const CACHE_PREFIX = "gas-map-";
+const CACHE_NAME = `${CACHE_PREFIX}${version}`;
+const APP_SHELL = "/index.html";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      // Bypass the HTTP cache so a new version never stores stale files
+      .then((cache) => cache.addAll(urls.map((url) => new Request(url, { cache: "reload" }))))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Map tiles and other origins go to the network; the map has its own
+  // tile-less fallback when they fail
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  // Pages are client-side routes: try the network for a fresh shell, fall
+  // back to the cached one offline
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request).catch(() =>
+        caches
+          .match(APP_SHELL, { cacheName: CACHE_NAME })
+          .then((cached) => cached ?? Response.error())
+      )
+    );
+    return;
+  }
+
+  // Hashed assets and datasets only change with the version, so the cache wins
+  event.respondWith(
+    caches
+      .match(request, { cacheName: CACHE_NAME })
+      .then((cached) => cached ?? fetch(request))
+  );
+});
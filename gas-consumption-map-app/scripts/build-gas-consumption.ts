@@ -0,0 +1,485 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { parseCsv, type CsvRow } from "../src/utils/csvUtils";
+import { MUNICIPAL_MERGERS } from "../src/data/mergers";
+import { averageRecords, getMergerYear } from "../src/utils/lineageUtils";
+import { getRegions } from "../src/utils/regionUtils";
+import type {
+  GasConsumptionData,
+  GasConsumptionRecord,
+  HousingType,
+  Metric,
+  MunicipalityGeoJSON,
+  NationalRecord,
+  RegionLevel,
+  RegionalRecord,
+} from "../src/types";
+
+const scriptDir = path.dirname(fileURLToPath(import.meta.url));
+
+const DEFAULT_INPUT = path.resolve(scriptDir, "../../data/raw/81528NED_energy_consumption_raw.csv");
+const DEFAULT_OUTPUT = path.resolve(scriptDir, "../public/gas_consumption.json");
+const DEFAULT_GEOJSON = path.resolve(scriptDir, "../public/gemeenten.geojson");
+// CBS StatLine 81955NED (dwelling stock per municipality), used when present
+const DEFAULT_DWELLINGS = path.resolve(
+  scriptDir,
+  "../../data/raw/81955NED_dwelling_stock_raw.csv"
+);
+
+// 81955NED columns: the stock on 1 January, on that year's boundaries
+const DWELLING_STOCK_COLUMN = "BeginstandVoorraad_1";
+const DWELLING_FUNCTION = "Woningen";
+
+const HOUSING_TYPE_CODES: Record<string, HousingType> = {
+  "Totaal woningen": "total",
+  "Appartement": "apartment",
+  "Tussenwoning": "terraced",
+  "Hoekwoning": "corner",
+  "2-onder-1-kapwoning": "semi_detached",
+  "Vrijstaande woning": "detached",
+  "Eigen woning": "owner_occupied",
+  "Huurwoning": "rental",
+};
+
+const HOUSING_TYPE_ORDER = Object.values(HOUSING_TYPE_CODES);
+
+const METRIC_COLUMNS: Record<Metric, string> = {
+  gas_consumption: "GemiddeldAardgasverbruik_1",
+  electricity_delivery: "GemiddeldeElektriciteitslevering_2",
+  net_electricity_delivery: "GemiddeldeNettoElektriciteitslevering_3",
+  district_heating_share: "Stadsverwarming_4",
+};
+
+const METRIC_UNITS: Record<Metric, string> = {
+  gas_consumption: "m3 per dwelling per year",
+  electricity_delivery: "kWh per dwelling per year",
+  net_electricity_delivery: "kWh per dwelling per year",
+  district_heating_share: "% of dwellings",
+};
+
+const NATIONAL_REGION = "Nederland";
+
+const NON_MUNICIPALITY_REGIONS = new Set([
+  NATIONAL_REGION,
+  "Buitenland",
+  "Gemeenten; niet in te delen",
+]);
+
+// Landsdelen (LD), provinces (PV) and energy regions (ES/ET) share the
+// RegioS column with municipalities.
+const AGGREGATE_REGION_SUFFIX = /\((LD|PV|ES|ET)\)$/;
+
+function isMunicipality(region: string): boolean {
+  return !NON_MUNICIPALITY_REGIONS.has(region) && !AGGREGATE_REGION_SUFFIX.test(region);
+}
+
+// Provinces and landsdelen are kept with their published averages. Energy
+// regions are left out: the app has no municipality membership to map them.
+const REGIONAL_LEVELS: Record<string, RegionLevel> = { PV: "province", LD: "landsdeel" };
+
+const KNOWN_REGIONS = new Set(
+  (["province", "landsdeel"] as const).flatMap((level) =>
+    getRegions(level).map((region) => `${level}|${region.name}`)
+  )
+);
+
+function parseValue(value: string): number | null {
+  if (value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function recordKey(municipality: string, year: number, housingType: HousingType): string {
+  return `${municipality}|${year}|${housingType}`;
+}
+
+// CBS region names are matched to the statcode of the boundary file once;
+// municipalities that no longer exist have no geometry and get no statcode.
+// CBS disambiguates a few names that equal a province with " (gemeente)".
+function loadStatcodes(geojsonPath: string): Map<string, string> {
+  const geo: MunicipalityGeoJSON = JSON.parse(readFileSync(geojsonPath, "utf-8"));
+  return new Map(
+    geo.features.map((f) => [f.properties.statnaam, f.properties.statcode] as const)
+  );
+}
+
+function getStatcode(statcodes: Map<string, string>, municipality: string): string | null {
+  return statcodes.get(municipality.replace(/ \(gemeente\)$/, "")) ?? null;
+}
+
+function toRecord(
+  row: CsvRow,
+  fromYear: number,
+  statcodes: Map<string, string>
+): GasConsumptionRecord | null {
+  const year = parseInt(row.Perioden, 10);
+  const housingType = HOUSING_TYPE_CODES[row.Woningkenmerken];
+
+  if (!housingType) {
+    throw new Error(`Unknown Woningkenmerken "${row.Woningkenmerken}" (ID ${row.ID})`);
+  }
+  if (Number.isNaN(year) || year < fromYear || !isMunicipality(row.RegioS)) {
+    return null;
+  }
+
+  const gasConsumption = parseValue(row[METRIC_COLUMNS.gas_consumption]);
+  if (gasConsumption === null) return null;
+
+  return {
+    municipality: row.RegioS,
+    statcode: getStatcode(statcodes, row.RegioS),
+    year,
+    housing_type: housingType,
+    gas_consumption: gasConsumption,
+    electricity_delivery: parseValue(row[METRIC_COLUMNS.electricity_delivery]),
+    net_electricity_delivery: parseValue(row[METRIC_COLUMNS.net_electricity_delivery]),
+    district_heating_share: parseValue(row[METRIC_COLUMNS.district_heating_share]),
+  };
+}
+
+function toNationalRecord(row: CsvRow, fromYear: number): NationalRecord | null {
+  const year = parseInt(row.Perioden, 10);
+  const housingType = HOUSING_TYPE_CODES[row.Woningkenmerken];
+  if (row.RegioS !== NATIONAL_REGION || !housingType || Number.isNaN(year) || year < fromYear) {
+    return null;
+  }
+
+  const record: NationalRecord = {
+    year,
+    housing_type: housingType,
+    gas_consumption: parseValue(row[METRIC_COLUMNS.gas_consumption]),
+    electricity_delivery: parseValue(row[METRIC_COLUMNS.electricity_delivery]),
+    net_electricity_delivery: parseValue(row[METRIC_COLUMNS.net_electricity_delivery]),
+    district_heating_share: parseValue(row[METRIC_COLUMNS.district_heating_share]),
+  };
+  const hasValue = (Object.keys(METRIC_COLUMNS) as Metric[]).some((m) => record[m] !== null);
+  return hasValue ? record : null;
+}
+
+function toRegionalRecord(row: CsvRow, fromYear: number): RegionalRecord | null {
+  const match = /^(.+) \((PV|LD)\)$/.exec(row.RegioS);
+  const year = parseInt(row.Perioden, 10);
+  const housingType = HOUSING_TYPE_CODES[row.Woningkenmerken];
+  if (!match || !housingType || Number.isNaN(year) || year < fromYear) return null;
+
+  // Skips "Extra-Regio (PV)" and partial landsdelen such as "West-Nederland, exclusief G4"
+  const [, region, suffix] = match;
+  const level = REGIONAL_LEVELS[suffix];
+  if (!KNOWN_REGIONS.has(`${level}|${region}`)) return null;
+
+  const record: RegionalRecord = {
+    level,
+    region,
+    year,
+    housing_type: housingType,
+    gas_consumption: parseValue(row[METRIC_COLUMNS.gas_consumption]),
+    electricity_delivery: parseValue(row[METRIC_COLUMNS.electricity_delivery]),
+    net_electricity_delivery: parseValue(row[METRIC_COLUMNS.net_electricity_delivery]),
+    district_heating_share: parseValue(row[METRIC_COLUMNS.district_heating_share]),
+  };
+  const hasValue = (Object.keys(METRIC_COLUMNS) as Metric[]).some((m) => record[m] !== null);
+  return hasValue ? record : null;
+}
+
+function compareRegionalRecords(a: RegionalRecord, b: RegionalRecord): number {
+  if (a.level !== b.level) return a.level < b.level ? -1 : 1;
+  if (a.region !== b.region) return a.region < b.region ? -1 : 1;
+  if (a.year !== b.year) return a.year - b.year;
+  return HOUSING_TYPE_ORDER.indexOf(a.housing_type) - HOUSING_TYPE_ORDER.indexOf(b.housing_type);
+}
+
+function compareNationalRecords(a: NationalRecord, b: NationalRecord): number {
+  if (a.year !== b.year) return a.year - b.year;
+  return HOUSING_TYPE_ORDER.indexOf(a.housing_type) - HOUSING_TYPE_ORDER.indexOf(b.housing_type);
+}
+
+// Turns an 81955NED export into rows of the simple dwelling table. Only the
+// total stock of municipalities is published, so counts apply to "total".
+function fromDwellingStock(rows: CsvRow[]): CsvRow[] {
+  return rows
+    .filter(
+      (row) =>
+        (row.Gebruiksfunctie === undefined || row.Gebruiksfunctie === DWELLING_FUNCTION) &&
+        isMunicipality(row.RegioS) &&
+        row[DWELLING_STOCK_COLUMN].trim() !== ""
+    )
+    .map((row) => ({
+      municipality: row.RegioS,
+      year: row.Perioden,
+      dwellings: row[DWELLING_STOCK_COLUMN],
+    }));
+}
+
+// Reads a dwelling table with the columns municipality (CBS name or GM code),
+// year, dwellings and optionally housing_type (a key such as "apartment" or
+// the CBS Woningkenmerken label), or a CBS 81955NED export. Rows without a
+// housing type count for "total". Returns how many records received a count.
+function attachDwellings(
+  records: Map<string, GasConsumptionRecord>,
+  dwellingsPath: string
+): number {
+  const byStatcode = new Map<string, string>();
+  for (const record of records.values()) {
+    if (record.statcode) byStatcode.set(record.statcode, record.municipality);
+  }
+  const housingTypes = new Map<string, HousingType>([
+    ...HOUSING_TYPE_ORDER.map((type) => [type, type] as const),
+    ...Object.entries(HOUSING_TYPE_CODES),
+  ]);
+
+  let attached = 0;
+  const unmatched = new Set<string>();
+  const table = parseCsv(readFileSync(dwellingsPath, "utf-8"));
+  const rows =
+    table.length > 0 && DWELLING_STOCK_COLUMN in table[0] ? fromDwellingStock(table) : table;
+
+  for (const row of rows) {
+    const municipality = byStatcode.get(row.municipality) ?? row.municipality;
+    const year = parseInt(row.year, 10);
+    const housingType = row.housing_type ? housingTypes.get(row.housing_type) : "total";
+    const dwellings = Number(row.dwellings);
+
+    if (!housingType) {
+      throw new Error(`Unknown housing type "${row.housing_type}" in ${dwellingsPath}`);
+    }
+    if (!Number.isInteger(dwellings) || dwellings < 0) {
+      throw new Error(`Invalid dwelling count "${row.dwellings}" for ${municipality} ${year}`);
+    }
+
+    const record = records.get(recordKey(municipality, year, housingType));
+    if (record) {
+      record.dwellings = dwellings;
+      attached++;
+    } else {
+      unmatched.add(`${municipality} ${row.year}`);
+    }
+  }
+
+  if (unmatched.size > 0) {
+    console.warn(
+      `  ${unmatched.size} dwelling rows match no consumption record, e.g. ${[...unmatched][0]}`
+    );
+  }
+  return attached;
+}
+
+// Fills the years before a merger took effect with the mean of the predecessor
+// municipalities, per housing type and metric (dwelling-weighted when all
+// predecessors have a dwelling count). Only successors that
+// CBS does not report for those years are completed, and predecessors split
+// over several successors are left out. Mergers are handled in date order, so
+// a successor completed this way can complete a later merger in turn.
+function completeFromPredecessors(
+  records: Map<string, GasConsumptionRecord>,
+  years: number[],
+  statcodes: Map<string, string>
+): GasConsumptionRecord[] {
+  const added: GasConsumptionRecord[] = [];
+
+  for (const merger of MUNICIPAL_MERGERS) {
+    const predecessors = merger.predecessors.filter(
+      (name) => name !== merger.successor && !merger.partial?.includes(name)
+    );
+
+    for (const year of years.filter((y) => y < getMergerYear(merger))) {
+      for (const housingType of HOUSING_TYPE_ORDER) {
+        if (records.has(recordKey(merger.successor, year, housingType))) continue;
+
+        const sources = predecessors
+          .map((name) => records.get(recordKey(name, year, housingType)))
+          .filter((r): r is GasConsumptionRecord => r !== undefined);
+        if (sources.length === 0) continue;
+
+        const record = averageRecords(sources, {
+          municipality: merger.successor,
+          statcode: getStatcode(statcodes, merger.successor),
+          year,
+          housing_type: housingType,
+        });
+        records.set(recordKey(record.municipality, record.year, record.housing_type), record);
+        added.push(record);
+      }
+    }
+  }
+
+  return added;
+}
+
+function compareRecords(a: GasConsumptionRecord, b: GasConsumptionRecord): number {
+  if (a.municipality !== b.municipality) return a.municipality < b.municipality ? -1 : 1;
+  if (a.year !== b.year) return a.year - b.year;
+  return HOUSING_TYPE_ORDER.indexOf(a.housing_type) - HOUSING_TYPE_ORDER.indexOf(b.housing_type);
+}
+
+function logImputedRecords(added: GasConsumptionRecord[]) {
+  const byMunicipality = new Map<string, GasConsumptionRecord[]>();
+  for (const record of added) {
+    const list = byMunicipality.get(record.municipality) ?? [];
+    list.push(record);
+    byMunicipality.set(record.municipality, list);
+  }
+
+  console.log(`Imputed ${added.length} records for ${byMunicipality.size} municipalities:`);
+  for (const [municipality, list] of [...byMunicipality].sort(([a], [b]) => (a < b ? -1 : 1))) {
+    const totals = list.filter((r) => r.housing_type === "total");
+    for (const record of totals) {
+      console.log(
+        `  ${municipality} ${record.year}: ${record.gas_consumption} m3 ` +
+          `(mean of ${record.imputed_from!.join(", ")})`
+      );
+    }
+    const otherTypes = list.length - totals.length;
+    if (otherTypes > 0) {
+      console.log(`  ${municipality}: ${otherTypes} housing-type records imputed likewise`);
+    }
+  }
+}
+
+function logJoinDiagnostics(data: GasConsumptionRecord[], statcodes: Map<string, string>) {
+  const latestYear = Math.max(...data.map((r) => r.year));
+  const joinedCodes = new Set(data.map((r) => r.statcode));
+  const unjoinedRecords = [
+    ...new Set(
+      data.filter((r) => r.year === latestYear && !r.statcode).map((r) => r.municipality)
+    ),
+  ];
+  const unjoinedFeatures = [...statcodes].filter(([, code]) => !joinedCodes.has(code));
+
+  if (unjoinedRecords.length === 0 && unjoinedFeatures.length === 0) {
+    console.log(`All ${statcodes.size} boundary features joined to ${latestYear} records`);
+    return;
+  }
+  for (const name of unjoinedRecords) {
+    console.warn(`  No boundary feature for ${latestYear} municipality "${name}"`);
+  }
+  for (const [name, code] of unjoinedFeatures) {
+    console.warn(`  No records for boundary feature ${code} "${name}"`);
+  }
+}
+
+// Metrics without a value are left out of the output; the app reads them back
+// as null
+function withoutMissingMetrics<T extends Partial<Record<Metric, number | null>>>(record: T): T {
+  const result = { ...record };
+  for (const metric of Object.keys(METRIC_COLUMNS) as Metric[]) {
+    if (metric !== "gas_consumption" && result[metric] === null) delete result[metric];
+  }
+  return result;
+}
+
+// Compact JSON with one record per line, which keeps the file small and its
+// diffs readable
+function stringifyByRecord(output: GasConsumptionData): string {
+  const members = Object.entries(output).map(([key, value]) =>
+    Array.isArray(value)
+      ? `${JSON.stringify(key)}:[\n${value
+          .map((record) => JSON.stringify(withoutMissingMetrics(record)))
+          .join(",\n")}\n]`
+      : `${JSON.stringify(key)}:${JSON.stringify(value)}`
+  );
+  return `{\n${members.join(",\n")}\n}\n`;
+}
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      input: { type: "string", default: DEFAULT_INPUT },
+      geojson: { type: "string", default: DEFAULT_GEOJSON },
+      output: { type: "string", default: DEFAULT_OUTPUT },
+      // Defaults to the first year in the input
+      "from-year": { type: "string" },
+      // CBS publishes no dwelling counts in 81528NED itself. Without this
+      // table, or an 81955NED export at the default path, the data has no
+      // counts: averages and imputed records stay unweighted and the app
+      // offers no dwelling-weighted average.
+      dwellings: { type: "string" },
+    },
+  });
+
+  const rows = parseCsv(readFileSync(values.input, "utf-8"));
+  const fromYear = values["from-year"]
+    ? parseInt(values["from-year"], 10)
+    : Math.min(...rows.map((row) => parseInt(row.Perioden, 10)).filter(Number.isFinite));
+  const statcodes = loadStatcodes(values.geojson);
+
+  const records = new Map<string, GasConsumptionRecord>();
+  const regionalAverages: RegionalRecord[] = [];
+  const nationalAverages: NationalRecord[] = [];
+  const housingTypeLabels = {} as Record<HousingType, string>;
+
+  for (const row of rows) {
+    const housingType = HOUSING_TYPE_CODES[row.Woningkenmerken];
+    if (housingType) housingTypeLabels[housingType] = row.Woningkenmerken;
+
+    const record = toRecord(row, fromYear, statcodes);
+    if (record) {
+      records.set(recordKey(record.municipality, record.year, record.housing_type), record);
+    }
+    const regional = toRegionalRecord(row, fromYear);
+    if (regional) regionalAverages.push(regional);
+    const national = toNationalRecord(row, fromYear);
+    if (national) nationalAverages.push(national);
+  }
+
+  const years = [...new Set([...records.values()].map((r) => r.year))].sort((a, b) => a - b);
+  if (years.length === 0) {
+    throw new Error(`No municipal records found from ${fromYear} onwards in ${values.input}`);
+  }
+
+  const dwellingsPath =
+    values.dwellings ?? (existsSync(DEFAULT_DWELLINGS) ? DEFAULT_DWELLINGS : undefined);
+  const withDwellings = dwellingsPath ? attachDwellings(records, dwellingsPath) : 0;
+  const added = completeFromPredecessors(records, years, statcodes);
+  const data = [...records.values()].sort(compareRecords);
+  housingTypeLabels.total = `${housingTypeLabels.total} (all dwelling types)`;
+
+  const output: GasConsumptionData = {
+    metadata: {
+      source: "CBS StatLine - 81528NED",
+      description:
+        "Average residential natural gas consumption, electricity delivery and district heating share per municipality",
+      units: METRIC_UNITS,
+      housing_types: housingTypeLabels,
+      years_covered: `${years[0]}-${years[years.length - 1]}`,
+      municipalities_count: new Set(data.map((r) => r.municipality)).size,
+      records_count: data.length,
+      data_completion: {
+        method: "predecessor_averaging",
+        records_added: added.length,
+        municipalities_updated: new Set(added.map((r) => r.municipality)).size,
+      },
+      ...(dwellingsPath && {
+        dwelling_counts: {
+          source: path.basename(dwellingsPath),
+          records_with_dwellings: withDwellings,
+        },
+      }),
+    },
+    data,
+    regional_averages: regionalAverages.sort(compareRegionalRecords),
+    national_averages: nationalAverages.sort(compareNationalRecords),
+  };
+
+  writeFileSync(values.output, stringifyByRecord(output));
+
+  logImputedRecords(added);
+  logJoinDiagnostics(data, statcodes);
+  console.log(
+    `Wrote ${output.metadata.records_count} records for ` +
+      `${output.metadata.municipalities_count} municipalities ` +
+      `(${output.metadata.years_covered}), ${regionalAverages.length} provincial and ` +
+      `landsdeel averages and ${nationalAverages.length} national averages to ${values.output}`
+  );
+  if (dwellingsPath) {
+    console.log(`Attached dwelling counts to ${withDwellings} records from ${dwellingsPath}`);
+  } else {
+    console.log(
+      `No dwelling table (--dwellings or ${DEFAULT_DWELLINGS}); ` +
+        "dwelling-weighted averages unavailable"
+    );
+  }
+}
+
+main();
@@ -0,0 +1,143 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { parseCsv } from "../src/utils/csvUtils";
+import type { HeatingDegreeDays } from "../src/types";
+
+const scriptDir = path.dirname(fileURLToPath(import.meta.url));
+
+const DEFAULT_OUTPUT = path.resolve(scriptDir, "../public/heating_degree_days.json");
+const DEFAULT_NATIONAL_STATION = "260"; // De Bilt
+const BASE_TEMPERATURE = 18;
+
+interface StationSeries {
+  name: string;
+  hdd: Record<string, number>;
+}
+
+// Parses a KNMI daily weather file (etmgeg_<station>.txt). Comment lines start
+// with "#"; the column header is the comment line that names YYYYMMDD. TG is
+// the daily mean temperature in 0.1 °C. Only complete years are kept.
+function parseKnmiDaily(file: string): [station: string, series: StationSeries] {
+  const lines = readFileSync(file, "utf-8").split(/\r?\n/);
+  const header = lines.find((line) => line.startsWith("#") && line.includes("YYYYMMDD"));
+  if (!header) {
+    throw new Error(`${file} has no KNMI column header (expected a "# STN,YYYYMMDD,..." line)`);
+  }
+
+  const columns = header.replace(/^#/, "").split(",").map((c) => c.trim());
+  const stationColumn = columns.indexOf("STN");
+  const dateColumn = columns.indexOf("YYYYMMDD");
+  const temperatureColumn = columns.indexOf("TG");
+  if (temperatureColumn === -1) {
+    throw new Error(`${file} has no TG (daily mean temperature) column`);
+  }
+
+  const totals = new Map<string, { hdd: number; days: number }>();
+  let station = "";
+
+  for (const line of lines) {
+    if (line.startsWith("#") || line.trim() === "") continue;
+
+    const fields = line.split(",").map((f) => f.trim());
+    const temperature = fields[temperatureColumn];
+    if (temperature === "") continue;
+
+    station = fields[stationColumn];
+    const year = fields[dateColumn].slice(0, 4);
+    const total = totals.get(year) ?? { hdd: 0, days: 0 };
+    total.hdd += Math.max(0, BASE_TEMPERATURE - Number(temperature) / 10);
+    total.days += 1;
+    totals.set(year, total);
+  }
+
+  const hdd: Record<string, number> = {};
+  for (const [year, total] of totals) {
+    const daysInYear = new Date(Number(year), 1, 29).getDate() === 29 ? 366 : 365;
+    if (total.days === daysInYear) {
+      hdd[year] = Math.round(total.hdd * 10) / 10;
+    } else {
+      console.warn(`  Station ${station}: skipping ${year} (${total.days} of ${daysInYear} days)`);
+    }
+  }
+
+  const name = lines
+    .find((line) => line.trim().startsWith(`# ${station}:`))
+    ?.split(/\s{2,}/)
+    .at(-1)
+    ?.trim();
+  return [station, { name: name ?? `Station ${station}`, hdd }];
+}
+
+// Optional CSV with statcode,station columns assigning each municipality to
+// its nearest (or otherwise preferred) KNMI station.
+function loadStationMapping(file: string): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  for (const row of parseCsv(readFileSync(file, "utf-8"))) {
+    if (!row.statcode || !row.station) {
+      throw new Error(`${file} must have statcode and station columns`);
+    }
+    mapping[row.statcode] = row.station;
+  }
+  return mapping;
+}
+
+function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      "national-station": { type: "string", default: DEFAULT_NATIONAL_STATION },
+      stations: { type: "string" },
+      "weather-dependent-share": { type: "string" },
+      output: { type: "string", default: DEFAULT_OUTPUT },
+    },
+  });
+
+  if (positionals.length === 0) {
+    throw new Error(
+      "Pass one or more KNMI daily files (etmgeg_<station>.txt), e.g. etmgeg_260.txt"
+    );
+  }
+
+  const stations: Record<string, StationSeries> = {};
+  for (const file of positionals) {
+    const [station, series] = parseKnmiDaily(file);
+    stations[station] = series;
+  }
+
+  const national = stations[values["national-station"]];
+  if (!national) {
+    throw new Error(`No input file for national station ${values["national-station"]}`);
+  }
+
+  const municipalityStations = values.stations ? loadStationMapping(values.stations) : undefined;
+  for (const [statcode, station] of Object.entries(municipalityStations ?? {})) {
+    if (!stations[station]) {
+      throw new Error(`${statcode} is mapped to station ${station}, which has no input file`);
+    }
+  }
+
+  const share = values["weather-dependent-share"];
+  const output: HeatingDegreeDays = {
+    metadata: {
+      source: "KNMI daily weather data (etmgeg)",
+      description: `Heating degree days per year, sum of max(0, ${BASE_TEMPERATURE} - daily mean temperature); national series from ${national.name}`,
+      base_temperature: BASE_TEMPERATURE,
+      ...(share !== undefined && { weather_dependent_share: Number(share) }),
+    },
+    national: national.hdd,
+    ...(municipalityStations && { stations, municipality_stations: municipalityStations }),
+  };
+
+  writeFileSync(values.output, JSON.stringify(output, null, 2) + "\n");
+
+  const years = Object.keys(national.hdd);
+  console.log(
+    `Wrote degree days for ${years[0]}-${years.at(-1)} from ${positionals.length} station(s)` +
+      `${municipalityStations ? ` mapped to ${Object.keys(municipalityStations).length} municipalities` : ""}` +
+      ` to ${values.output}`
+  );
+}
+
+main();
@@ -0,0 +1,85 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import polygonClipping, { type MultiPolygon, type Polygon } from "polygon-clipping";
+import { getRegions } from "../src/utils/regionUtils";
+import type { MunicipalityGeoJSON, RegionLevel } from "../src/types";
+
+const scriptDir = path.dirname(fileURLToPath(import.meta.url));
+
+const DEFAULT_GEOJSON = path.resolve(scriptDir, "../public/gemeenten.geojson");
+const DEFAULT_OUTPUT_DIR = path.resolve(scriptDir, "../public");
+
+const OUTPUT_FILES: Record<RegionLevel, string> = {
+  province: "provinces.geojson",
+  landsdeel: "landsdelen.geojson",
+};
+
+// Holes smaller than this (in squared degrees, roughly 7 km²) are gaps
+// between neighbouring municipalities left by the boundary file's rounding to
+// three decimals, not real enclaves or lakes.
+const MIN_HOLE_AREA = 1e-3;
+
+function ringArea(ring: [number, number][]): number {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  }
+  return Math.abs(area / 2);
+}
+
+function toPolygons(geometry: MunicipalityGeoJSON["features"][number]["geometry"]): Polygon[] {
+  if (geometry.type === "Polygon") return [geometry.coordinates as Polygon];
+  if (geometry.type === "MultiPolygon") return geometry.coordinates as MultiPolygon;
+  return [];
+}
+
+// Dissolves the municipal boundaries of each region into one feature, with
+// the CBS region code and name in the same properties as municipalities.
+function dissolve(geo: MunicipalityGeoJSON, level: RegionLevel): MunicipalityGeoJSON {
+  // CBS disambiguates a few names that equal a province with " (gemeente)"
+  const byName = new Map(geo.features.map((f) => [f.properties.statnaam, f] as const));
+  const features = getRegions(level).map((region) => {
+    const polygons = region.municipalities.flatMap((name) => {
+      const feature = byName.get(name.replace(/ \(gemeente\)$/, ""));
+      if (!feature) throw new Error(`No boundary feature for "${name}" (${region.name})`);
+      return toPolygons(feature.geometry);
+    });
+
+    const union = polygonClipping
+      .union(polygons[0], ...polygons.slice(1))
+      .map(([outer, ...holes]) => [outer, ...holes.filter((h) => ringArea(h) >= MIN_HOLE_AREA)]);
+
+    return {
+      type: "Feature" as const,
+      geometry: { type: "MultiPolygon", coordinates: union },
+      properties: { statcode: region.code, statnaam: region.name },
+      id: region.code,
+    };
+  });
+
+  return { type: "FeatureCollection", features };
+}
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      geojson: { type: "string", default: DEFAULT_GEOJSON },
+      "output-dir": { type: "string", default: DEFAULT_OUTPUT_DIR },
+    },
+  });
+
+  const geo: MunicipalityGeoJSON = JSON.parse(readFileSync(values.geojson, "utf-8"));
+
+  for (const level of Object.keys(OUTPUT_FILES) as RegionLevel[]) {
+    const output = path.join(values["output-dir"], OUTPUT_FILES[level]);
+    const regions = dissolve(geo, level);
+    writeFileSync(output, JSON.stringify(regions) + "\n");
+
+    const parts = regions.features.reduce((n, f) => n + f.geometry.coordinates.length, 0);
+    console.log(`Wrote ${regions.features.length} ${level} boundaries (${parts} parts) to ${output}`);
+  }
+}
+
+main();
@@ -0,0 +1,207 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { meanOfRecords } from "../src/utils/averageUtils";
+import {
+  CLASSIFICATION_METHODS,
+  classify,
+  classifyDiverging,
+  DEFAULT_CLASSIFICATION,
+  getClassColor,
+} from "../src/utils/classificationUtils";
+import { getCompareParam, parseCompareParam } from "../src/utils/compareUtils";
+import {
+  getFeaturesWithoutRecords,
+  getMissingYears,
+  getRecordsWithoutGeometry,
+  getYearOverYearOutliers,
+} from "../src/utils/dataUtils";
+import { FORECAST_MODELS, forecastSeries } from "../src/utils/forecastUtils";
+import {
+  createIndexCache,
+  getChangeByMunicipality,
+  getYearCoverage,
+} from "../src/utils/indexUtils";
+import { applyBoundaryMode } from "../src/utils/lineageUtils";
+import { parseGasConsumptionData, parseMunicipalityGeoJSON } from "../src/utils/validation";
+import type { GasConsumptionRecord } from "../src/types";
+
+// Spot checks of the derived data against public/gas_consumption.json:
+// npm run check:data
+
+const scriptDir = path.dirname(fileURLToPath(import.meta.url));
+const dataPath = path.resolve(scriptDir, "../public/gas_consumption.json");
+const data = parseGasConsumptionData(JSON.parse(readFileSync(dataPath, "utf-8")), dataPath);
+const geoPath = path.resolve(scriptDir, "../public/gemeenten.geojson");
+const geo = parseMunicipalityGeoJSON(
+  JSON.parse(readFileSync(geoPath, "utf-8")),
+  geoPath
+) as GeoJSON.FeatureCollection;
+const latestYear = Math.max(...data.data.map((r) => r.year));
+
+function totals(records: GasConsumptionRecord[], municipality: string): Map<number, number> {
+  return new Map(
+    records
+      .filter((r) => r.municipality === municipality && r.housing_type === "total")
+      .map((r) => [r.year, r.gas_consumption])
+  );
+}
+
+const checks: [name: string, run: () => void][] = [];
+
+function check(name: string, run: () => void) {
+  checks.push([name, run]);
+}
+
+const current = applyBoundaryMode(data, "current").data;
+const historical = applyBoundaryMode(data, "historical").data;
+
+// A successor CBS reports before its merger keeps its own figures
+const SUCCESSORS = ["Purmerend", "Amsterdam", "Tilburg", "Groningen (gemeente)", "Leeuwarden"];
+for (const municipality of SUCCESSORS) {
+  check(`current boundaries keep reported ${municipality} figures`, () => {
+    const reported = totals(historical, municipality);
+    assert.ok(reported.size > 0, `no reported records for ${municipality}`);
+    assert.deepEqual(totals(current, municipality), reported);
+  });
+}
+
+check("current boundaries derive unreported years from the predecessors", () => {
+  const year = 2015;
+  const predecessors = ["Hoogezand-Sappemeer", "Menterwolde", "Slochteren"].map(
+    (name) =>
+      historical.find(
+        (r) => r.municipality === name && r.year === year && r.housing_type === "total"
+      )!
+  );
+  assert.equal(totals(historical, "Midden-Groningen").get(year), undefined);
+  assert.equal(
+    totals(current, "Midden-Groningen").get(year),
+    meanOfRecords(predecessors, "gas_consumption")
+  );
+});
+
+check("current boundaries leave dissolved municipalities out", () => {
+  assert.equal(totals(current, "Beemster").size, 0);
+  assert.equal(totals(current, "Weesp").size, 0);
+});
+
+check("compare links resolve short municipality slugs", () => {
+  const { municipalities, unknown } = parseCompareParam(
+    data,
+    "amsterdam,utrecht,groningen,den-haag"
+  );
+  assert.deepEqual(unknown, []);
+  assert.deepEqual(municipalities, [
+    "Amsterdam",
+    "Utrecht (gemeente)",
+    "Groningen (gemeente)",
+    "'s-Gravenhage (gemeente)",
+  ]);
+  assert.equal(getCompareParam(municipalities), "amsterdam,utrecht,groningen,den-haag");
+});
+
+check("mergers do not count as missing coverage", () => {
+  const getIndex = createIndexCache(data);
+  for (const mode of ["historical", "current"] as const) {
+    const index = getIndex("total", "gas_consumption", mode);
+    const incomplete = getYearCoverage(index, index.years).filter((c) => !c.complete);
+    assert.deepEqual(incomplete.map((c) => c.year), [], `incomplete ${mode} years`);
+  }
+});
+
+check("the map index covers today's municipalities in every year", () => {
+  const index = createIndexCache(data)("total", "gas_consumption", "current");
+  const latest = new Set(index.byYear.get(index.years.at(-1)!)!.map((r) => r.statcode));
+  for (const year of index.years) {
+    const missing = [...latest].filter(
+      (statcode) => !index.byYear.get(year)!.some((r) => r.statcode === statcode)
+    );
+    assert.deepEqual(missing, [], `missing in ${year}`);
+  }
+});
+
+check("default classes spread the latest year over the colours", () => {
+  const index = createIndexCache(data)("total", "gas_consumption", "current");
+  const values = index.byYear.get(index.years.at(-1)!)!.map((r) => r.value);
+  const classes = classify(values, DEFAULT_CLASSIFICATION, "Reds");
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const color = getClassColor(value, classes);
+    counts.set(color, (counts.get(color) ?? 0) + 1);
+  }
+  assert.equal(counts.size, DEFAULT_CLASSIFICATION.classCount, "classes in use");
+  for (const [color, count] of counts) {
+    assert.ok(count <= values.length / 2, `${count} of ${values.length} values in ${color}`);
+  }
+});
+
+check("every class method keeps its breaks in order", () => {
+  const index = createIndexCache(data)("total", "gas_consumption", "current");
+  const values = index.byYear.get(latestYear)!.map((r) => r.value);
+  for (const { value: method } of CLASSIFICATION_METHODS) {
+    const { breaks, colors } = classify(values, { ...DEFAULT_CLASSIFICATION, method }, "Reds");
+    assert.deepEqual(breaks, [...breaks].sort((a, b) => a - b), method);
+    assert.equal(colors.length, breaks.length + 1, method);
+  }
+});
+
+check("change classes are symmetric around zero", () => {
+  const index = createIndexCache(data)("total", "gas_consumption", "current");
+  const change = getChangeByMunicipality(index, {
+    fromYear: index.years[0],
+    toYear: latestYear,
+    unit: "percent",
+  });
+  const { breaks } = classifyDiverging(Object.values(change), DEFAULT_CLASSIFICATION.classCount);
+  assert.deepEqual(
+    breaks.map((b) => Math.abs(b)),
+    [...breaks].reverse().map((b) => Math.abs(b))
+  );
+});
+
+check("forecast intervals contain the forecast", () => {
+  const index = createIndexCache(data)("total", "gas_consumption", "current");
+  const national = [...index.nationalAverages].map(([year, value]) => ({ year, value }));
+  for (const { value: model } of FORECAST_MODELS) {
+    const forecast = forecastSeries(national, model, national);
+    assert.ok(forecast.length > 0, `no ${model} forecast`);
+    for (const { year, value, lower, upper } of forecast) {
+      assert.ok(lower <= value && value <= upper, `${model} ${year}`);
+    }
+  }
+  // A straight line is forecast along the line
+  const line = national.map(({ year }, i) => ({ year, value: 2000 - 50 * i }));
+  const [next] = forecastSeries(line, "linear", line);
+  assert.equal(next.value, 2000 - 50 * line.length);
+});
+
+check("the latest year joins every record to a boundary", () => {
+  assert.deepEqual(getFeaturesWithoutRecords(data, geo, latestYear), []);
+  assert.deepEqual(getRecordsWithoutGeometry(data, geo, latestYear), []);
+});
+
+check("current municipalities cover every year", () => {
+  assert.deepEqual(getMissingYears(data), []);
+});
+
+check("year-over-year outliers exceed the threshold", () => {
+  const outliers = getYearOverYearOutliers(data, latestYear, 10);
+  for (const { record, changePercent } of outliers) {
+    assert.ok(Math.abs(changePercent) > 10, record.municipality);
+  }
+});
+
+let failed = 0;
+for (const [name, run] of checks) {
+  try {
+    run();
+    console.log(`ok   ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`FAIL ${name}\n     ${(error as Error).message.split("\n").join("\n     ")}`);
+  }
+}
+console.log(`${checks.length - failed} of ${checks.length} checks passed`);
+if (failed > 0) process.exitCode = 1;
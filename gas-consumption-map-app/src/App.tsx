@@ -1,17 +1,31 @@
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { DataProvider } from "./context/DataProvider";
+import { Compare } from "./pages/Compare";
+import { DataQuality } from "./pages/DataQuality";
+import { Explore } from "./pages/Explore";
 import { Home } from "./pages/Home";
 import { MapView } from "./pages/MapView";
+import { Models } from "./pages/Models";
 import { MunicipalityDetail } from "./pages/MunicipalityDetail";
+import { Rankings } from "./pages/Rankings";
 
 function App() {
   return (
-    <BrowserRouter>
-      <Routes>
-        <Route path="/" element={<Home />} />
-        <Route path="/map" element={<MapView />} />
-        <Route path="/municipality/:slug" element={<MunicipalityDetail />} />
-      </Routes>
-    </BrowserRouter>
+    <DataProvider>
+      <BrowserRouter>
+          <Routes>
+          <Route path="/" element={<Home />} />
+          <Route path="/map" element={<MapView />} />
+          <Route path="/municipality/:slug" element={<MunicipalityDetail />} />
+          <Route path="/region/:slug" element={<MunicipalityDetail />} />
+          <Route path="/compare" element={<Compare />} />
+          <Route path="/rankings" element={<Rankings />} />
+          <Route path="/data-quality" element={<DataQuality />} />
+          <Route path="/models" element={<Models />} />
+          <Route path="/explore" element={<Explore />} />
+        </Routes>
+      </BrowserRouter>
+    </DataProvider>
   );
 }
 
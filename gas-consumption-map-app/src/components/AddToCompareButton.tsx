@@ -0,0 +1,26 @@
+import { Link } from "react-router-dom";
+import { GitCompare } from "lucide-react";
+import { addToComparison, getComparePath, getStoredComparison } from "@/utils/compareUtils";
+
+interface AddToCompareButtonProps {
+  municipality: string;
+  className?: string;
+}
+
+export function AddToCompareButton({
+  municipality,
+  className = "text-blue-600",
+}: AddToCompareButtonProps) {
+  const stored = getStoredComparison();
+  const inComparison = stored.includes(municipality);
+
+  return (
+    <Link
+      to={getComparePath(addToComparison(stored, municipality))}
+      className={`inline-flex items-center gap-1 hover:underline ${className}`}
+    >
+      <GitCompare className="w-3.5 h-3.5" />
+      {inComparison ? "Open comparison" : "Add to compare"}
+    </Link>
+  );
+}
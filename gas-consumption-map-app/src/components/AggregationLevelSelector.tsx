@@ -0,0 +1,46 @@
+import { Card } from "@/components/ui/card";
+import { useData } from "@/context/DataContext";
+import { AGGREGATION_LEVELS } from "@/utils/regionUtils";
+import type { AggregationLevel } from "@/types";
+
+interface AggregationLevelSelectorProps {
+  level: AggregationLevel;
+  onChange: (level: AggregationLevel) => void;
+}
+
+export function AggregationLevelSelector({ level, onChange }: AggregationLevelSelectorProps) {
+  const { regionGeoData, regionGeoError } = useData();
+  const isAvailable = (value: AggregationLevel) =>
+    value === "municipality" || regionGeoData[value] !== null;
+
+  const hint = regionGeoError
+    ? `Region boundaries could not be loaded: ${regionGeoError.message}`
+    : !AGGREGATION_LEVELS.every(({ value }) => isAvailable(value))
+      ? "Add public/provinces.geojson and public/landsdelen.geojson (npm run build:regions) to enable"
+      : level !== "municipality"
+        ? "CBS-published regional averages"
+        : null;
+
+  return (
+    <Card className="p-3 gap-2">
+      <div className="flex items-center gap-2">
+        <label className="text-sm font-medium">Level</label>
+        {AGGREGATION_LEVELS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => onChange(value)}
+            disabled={!isAvailable(value)}
+            className={`px-3 py-1 rounded text-xs transition-colors disabled:opacity-50 ${
+              level === value
+                ? "bg-slate-800 text-white font-medium"
+                : "bg-slate-100 hover:bg-slate-200"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {hint && <p className="text-xs text-muted-foreground max-w-64">{hint}</p>}
+    </Card>
+  );
+}
@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import {
+  downloadBlob,
+  exportAnimation,
+  type AnimationFormat,
+  type AnimationOptions,
+} from "@/utils/exportUtils";
+
+interface AnimationExportProps {
+  // Built on demand so frames are only computed when exporting
+  getOptions: () => AnimationOptions;
+  filename: string;
+}
+
+const FORMATS: { value: AnimationFormat; label: string }[] = [
+  { value: "gif", label: "GIF" },
+  { value: "webm", label: "WebM" },
+];
+
+export function AnimationExport({ getOptions, filename }: AnimationExportProps) {
+  const [exporting, setExporting] = useState<AnimationFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: AnimationFormat) => {
+    setExporting(format);
+    setError(null);
+    try {
+      const blob = await exportAnimation(format, getOptions());
+      downloadBlob(blob, `${filename}.${format}`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Card className="p-3 gap-2">
+      <div className="flex items-center gap-2">
+        <Download className="w-4 h-4 text-muted-foreground" />
+        <span className="text-sm font-medium">Export animation</span>
+        {FORMATS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => handleExport(value)}
+            disabled={exporting !== null}
+            className="px-3 py-1 rounded text-xs bg-slate-100 hover:bg-slate-200 disabled:opacity-50 transition-colors"
+          >
+            {exporting === value ? "Rendering…" : label}
+          </button>
+        ))}
+      </div>
+      {error && <p className="text-xs text-red-600 max-w-64">{error}</p>}
+    </Card>
+  );
+}
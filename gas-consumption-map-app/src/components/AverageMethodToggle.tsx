@@ -0,0 +1,57 @@
+import { Card } from "@/components/ui/card";
+import { useData } from "@/context/DataContext";
+import { AVERAGE_METHODS, describeAverageSources } from "@/utils/averageUtils";
+import type { MetricIndex } from "@/utils/indexUtils";
+import type { AverageMethod } from "@/types";
+
+interface AverageMethodToggleProps {
+  // Index whose averages are on screen, to name the source actually used
+  index: MetricIndex | null;
+}
+
+// The methods are only offered when the data carries dwelling counts (see
+// build:data); otherwise the card just names the average shown.
+export function AverageMethodToggle({ index }: AverageMethodToggleProps) {
+  const { data, averageMethod, setAverageMethod } = useData();
+  const isAvailable = (method: AverageMethod) =>
+    method === "cbs"
+      ? (data?.national_averages?.length ?? 0) > 0
+      : (data?.metadata.dwelling_counts?.records_with_dwellings ?? 0) > 0;
+
+  const used =
+    index && index.averageSources.size > 0
+      ? `Showing: ${describeAverageSources(index.averageSources)}`
+      : null;
+  if (!isAvailable("weighted")) {
+    return (
+      used && (
+        <Card className="p-3">
+          <p className="text-xs max-w-64">{used}</p>
+        </Card>
+      )
+    );
+  }
+
+  return (
+    <Card className="p-3 gap-2">
+      <div className="flex items-center gap-2">
+        <label className="text-sm font-medium">Average</label>
+        {AVERAGE_METHODS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setAverageMethod(value)}
+            disabled={!isAvailable(value)}
+            className={`px-3 py-1 rounded text-xs transition-colors disabled:opacity-50 ${
+              averageMethod === value
+                ? "bg-slate-800 text-white font-medium"
+                : "bg-slate-100 hover:bg-slate-200"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {used && <p className="text-xs max-w-64">{used}</p>}
+    </Card>
+  );
+}
@@ -0,0 +1,60 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { TileLayer, useMap } from "react-leaflet";
+
+const TILE_URL = "https://{s}.basemaps.cartocdn.com/light_nolabels/{z}/{x}/{y}{r}.png";
+const ATTRIBUTION = '&copy; <a href="https://carto.com/">CARTO</a>';
+
+// Tiles that fail before any loads mean the tile server is unreachable even
+// though the browser reports a connection (captive portals, blocked hosts).
+const MAX_TILE_ERRORS = 4;
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+}
+
+interface BasemapProps {
+  attribution?: boolean;
+}
+
+// CARTO tiles when they can be reached, otherwise a plain background so the
+// choropleth stays readable offline. Coming back online retries the tiles.
+export function Basemap({ attribution = false }: BasemapProps) {
+  const map = useMap();
+  const online = useSyncExternalStore(subscribe, () => navigator.onLine);
+  const [failures, setFailures] = useState({ errors: 0, loaded: false, online });
+
+  // A change in connectivity starts counting again
+  if (failures.online !== online) {
+    setFailures({ errors: 0, loaded: false, online });
+  }
+  const tiled = online && (failures.loaded || failures.errors < MAX_TILE_ERRORS);
+
+  useEffect(() => {
+    const container = map.getContainer();
+    container.classList.toggle("basemap-offline", !tiled);
+    if (!tiled) {
+      map.attributionControl?.addAttribution("Offline basemap");
+      return () => {
+        map.attributionControl?.removeAttribution("Offline basemap");
+      };
+    }
+  }, [map, tiled]);
+
+  if (!tiled) return null;
+
+  return (
+    <TileLayer
+      url={TILE_URL}
+      attribution={attribution ? ATTRIBUTION : undefined}
+      eventHandlers={{
+        tileload: () => setFailures((f) => (f.loaded ? f : { ...f, loaded: true })),
+        tileerror: () => setFailures((f) => ({ ...f, errors: f.errors + 1 })),
+      }}
+    />
+  );
+}
@@ -0,0 +1,123 @@
+import type { ReactNode } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card } from "@/components/ui/card";
+import type { ChangeSettings, ChangeUnit, MapMode } from "@/types";
+
+interface ChangeSelectorProps {
+  mode: MapMode;
+  settings: ChangeSettings;
+  years: number[];
+  onModeChange: (mode: MapMode) => void;
+  onSettingsChange: (settings: ChangeSettings) => void;
+}
+
+const MODES: { value: MapMode; label: string }[] = [
+  { value: "value", label: "Value" },
+  { value: "change", label: "Change" },
+];
+
+const UNITS: { value: ChangeUnit; label: string }[] = [
+  { value: "percent", label: "%" },
+  { value: "absolute", label: "Absolute" },
+];
+
+function ToggleButton({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`px-3 py-1 rounded text-xs transition-colors ${
+        active ? "bg-slate-800 text-white font-medium" : "bg-slate-100 hover:bg-slate-200"
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+function YearSelect({
+  value,
+  years,
+  onChange,
+}: {
+  value: number;
+  years: number[];
+  onChange: (year: number) => void;
+}) {
+  return (
+    <Select value={String(value)} onValueChange={(year) => onChange(Number(year))}>
+      <SelectTrigger className="w-24">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {years.map((year) => (
+          <SelectItem key={year} value={String(year)}>
+            {year}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function ChangeSelector({
+  mode,
+  settings,
+  years,
+  onModeChange,
+  onSettingsChange,
+}: ChangeSelectorProps) {
+  return (
+    <Card className="p-3 gap-2">
+      <div className="flex items-center gap-2">
+        <label className="text-sm font-medium">Colour by</label>
+        {MODES.map(({ value, label }) => (
+          <ToggleButton key={value} active={mode === value} onClick={() => onModeChange(value)}>
+            {label}
+          </ToggleButton>
+        ))}
+      </div>
+      {mode === "change" && (
+        <>
+          <div className="flex items-center gap-2">
+            <YearSelect
+              value={settings.fromYear}
+              years={years}
+              onChange={(fromYear) => onSettingsChange({ ...settings, fromYear })}
+            />
+            <span className="text-sm text-muted-foreground">→</span>
+            <YearSelect
+              value={settings.toYear}
+              years={years}
+              onChange={(toYear) => onSettingsChange({ ...settings, toYear })}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            {UNITS.map(({ value, label }) => (
+              <ToggleButton
+                key={value}
+                active={settings.unit === value}
+                onClick={() => onSettingsChange({ ...settings, unit: value })}
+              >
+                {label}
+              </ToggleButton>
+            ))}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
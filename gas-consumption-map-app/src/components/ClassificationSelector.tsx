@@ -0,0 +1,130 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card } from "@/components/ui/card";
+import {
+  CLASS_SCALES,
+  CLASSIFICATION_METHODS,
+  MAX_CLASS_COUNT,
+  MIN_CLASS_COUNT,
+  PALETTES,
+  getPaletteColors,
+} from "@/utils/classificationUtils";
+import type {
+  Classification,
+  ClassificationMethod,
+  ClassScale,
+  SequentialPalette,
+} from "@/types";
+
+interface ClassificationSelectorProps {
+  classification: Classification;
+  defaultPalette: SequentialPalette;
+  onChange: (classification: Classification) => void;
+}
+
+const CLASS_COUNTS = Array.from(
+  { length: MAX_CLASS_COUNT - MIN_CLASS_COUNT + 1 },
+  (_, i) => MIN_CLASS_COUNT + i
+);
+
+function PaletteSwatch({ palette }: { palette: SequentialPalette }) {
+  return (
+    <span className="flex">
+      {getPaletteColors(palette, 5).map((color) => (
+        <span key={color} className="w-3 h-3" style={{ backgroundColor: color }} />
+      ))}
+    </span>
+  );
+}
+
+export function ClassificationSelector({
+  classification,
+  defaultPalette,
+  onChange,
+}: ClassificationSelectorProps) {
+  const palette = classification.palette ?? defaultPalette;
+
+  return (
+    <Card className="p-3 gap-2">
+      <div className="flex items-center gap-2">
+        <label className="text-sm font-medium w-14">Classes</label>
+        <Select
+          value={classification.method}
+          onValueChange={(value) =>
+            onChange({ ...classification, method: value as ClassificationMethod })
+          }
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CLASSIFICATION_METHODS.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={String(classification.classCount)}
+          onValueChange={(value) => onChange({ ...classification, classCount: Number(value) })}
+        >
+          <SelectTrigger className="w-16">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CLASS_COUNTS.map((count) => (
+              <SelectItem key={count} value={String(count)}>
+                {count}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center gap-2">
+        <label className="text-sm font-medium w-14">Palette</label>
+        <Select
+          value={palette}
+          onValueChange={(value) =>
+            onChange({ ...classification, palette: value as SequentialPalette })
+          }
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PALETTES.map((value) => (
+              <SelectItem key={value} value={value}>
+                <PaletteSwatch palette={value} />
+                {value}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center gap-2">
+        <label className="text-sm font-medium w-14">Scale</label>
+        <Select
+          value={classification.scale}
+          onValueChange={(value) => onChange({ ...classification, scale: value as ClassScale })}
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CLASS_SCALES.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </Card>
+  );
+}
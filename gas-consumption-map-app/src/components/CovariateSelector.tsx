@@ -0,0 +1,68 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card } from "@/components/ui/card";
+import { useData } from "@/context/DataContext";
+import { getCovariateDefinition } from "@/utils/covariateUtils";
+
+const NONE = "none";
+
+interface CovariateSelectorProps {
+  covariate: string | null;
+  // Covariates replace the metric on the map only where it shows municipal values
+  available: boolean;
+  onChange: (covariate: string | null) => void;
+}
+
+export function CovariateSelector({ covariate, available, onChange }: CovariateSelectorProps) {
+  const { covariates, covariateError } = useData();
+
+  if (covariateError) {
+    return (
+      <Card className="p-3 gap-1">
+        <span className="text-sm font-medium text-muted-foreground">Covariate</span>
+        <p className="text-xs text-muted-foreground max-w-64">
+          Covariates could not be loaded: {covariateError.message}
+        </p>
+      </Card>
+    );
+  }
+  if (!covariates || covariates.definitions.length === 0) return null;
+
+  const definition = covariate ? getCovariateDefinition(covariates, covariate) : undefined;
+  const hint = !available
+    ? "Shown on the municipal map of values only"
+    : definition
+      ? [definition.description, `Source: ${definition.source}`].filter(Boolean).join(". ")
+      : null;
+
+  return (
+    <Card className="p-3 gap-1">
+      <div className="flex items-center gap-2">
+        <label className="text-sm font-medium">Covariate</label>
+        <Select
+          value={definition?.key ?? NONE}
+          disabled={!available}
+          onValueChange={(value) => onChange(value === NONE ? null : value)}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>None</SelectItem>
+            {covariates.definitions.map(({ key, label, unit }) => (
+              <SelectItem key={key} value={key}>
+                {unit ? `${label} (${unit})` : label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {hint && <p className="text-xs text-muted-foreground max-w-64">{hint}</p>}
+    </Card>
+  );
+}
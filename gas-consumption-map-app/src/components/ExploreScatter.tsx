@@ -0,0 +1,195 @@
+import { useRef, useState } from "react";
+import {
+  CartesianGrid,
+  Cell,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { OlsFit, ScatterPoint } from "@/utils/exploreUtils";
+
+// Fixed layout, so a brushed rectangle in pixels converts back to values
+const MARGIN = { top: 10, right: 20, bottom: 10, left: 10 };
+const Y_AXIS_WIDTH = 70;
+const X_AXIS_HEIGHT = 40;
+
+// Drags shorter than this are clicks, which clear the brush
+const MIN_BRUSH_PIXELS = 4;
+
+interface Axis {
+  label: string;
+  domain: [number, number];
+  decimals: number;
+}
+
+interface ExploreScatterProps {
+  points: ScatterPoint[];
+  colors: Record<string, string>;
+  x: Axis;
+  y: Axis;
+  fit: OlsFit | null;
+  selected: Set<string> | null;
+  hovered: string | null;
+  onHover: (statcode: string | null) => void;
+  onBrush: (range: { x: [number, number]; y: [number, number] } | null) => void;
+}
+
+type Pixel = { x: number; y: number };
+
+function toRange(a: number, b: number): [number, number] {
+  return [Math.min(a, b), Math.max(a, b)];
+}
+
+export function ExploreScatter({
+  points,
+  colors,
+  x,
+  y,
+  fit,
+  selected,
+  hovered,
+  onHover,
+  onBrush,
+}: ExploreScatterProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<{ start: Pixel; end: Pixel } | null>(null);
+
+  const toPixel = (event: React.PointerEvent): Pixel => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  // Pixels to values through the plot area left by the margins and axes
+  const toValues = (start: Pixel, end: Pixel) => {
+    const { width, height } = containerRef.current!.getBoundingClientRect();
+    const left = MARGIN.left + Y_AXIS_WIDTH;
+    const plotWidth = width - left - MARGIN.right;
+    const plotHeight = height - MARGIN.top - MARGIN.bottom - X_AXIS_HEIGHT;
+    const toX = (px: number) =>
+      x.domain[0] + ((px - left) / plotWidth) * (x.domain[1] - x.domain[0]);
+    const toY = (py: number) =>
+      y.domain[1] - ((py - MARGIN.top) / plotHeight) * (y.domain[1] - y.domain[0]);
+    return {
+      x: toRange(toX(start.x), toX(end.x)),
+      y: toRange(toY(start.y), toY(end.y)),
+    };
+  };
+
+  const onPointerUp = () => {
+    if (!drag) return;
+    const { start, end } = drag;
+    setDrag(null);
+    const isClick =
+      Math.abs(end.x - start.x) < MIN_BRUSH_PIXELS && Math.abs(end.y - start.y) < MIN_BRUSH_PIXELS;
+    onBrush(isClick ? null : toValues(start, end));
+  };
+
+  const format = (decimals: number) => (value: number) =>
+    value.toLocaleString(undefined, { maximumFractionDigits: decimals });
+  const hoveredPoint = points.find((p) => p.statcode === hovered);
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative h-full select-none touch-none"
+      onPointerDown={(e) => {
+        if (e.button !== 0) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const start = toPixel(e);
+        setDrag({ start, end: start });
+      }}
+      onPointerMove={(e) => drag && setDrag({ ...drag, end: toPixel(e) })}
+      onPointerUp={onPointerUp}
+      onPointerCancel={() => setDrag(null)}
+    >
+      <ResponsiveContainer width="100%" height="100%">
+        <ScatterChart margin={MARGIN}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            type="number"
+            dataKey="x"
+            name={x.label}
+            domain={x.domain}
+            allowDataOverflow
+            height={X_AXIS_HEIGHT}
+            tickFormatter={format(x.decimals)}
+            label={{ value: x.label, position: "insideBottom", offset: 0 }}
+          />
+          <YAxis
+            type="number"
+            dataKey="y"
+            name={y.label}
+            domain={y.domain}
+            allowDataOverflow
+            width={Y_AXIS_WIDTH}
+            tickFormatter={format(y.decimals)}
+            label={{ value: y.label, angle: -90, position: "insideLeft" }}
+          />
+          <Tooltip
+            cursor={false}
+            formatter={(value, name) => [
+              typeof value === "number"
+                ? format(name === x.label ? x.decimals : y.decimals)(value)
+                : value,
+              name,
+            ]}
+            labelFormatter={(_label, payload) =>
+              (payload[0]?.payload as ScatterPoint | undefined)?.municipality ?? ""
+            }
+          />
+          {fit && (
+            <ReferenceLine
+              segment={[
+                { x: x.domain[0], y: fit.intercept + fit.slope * x.domain[0] },
+                { x: x.domain[1], y: fit.intercept + fit.slope * x.domain[1] },
+              ]}
+              stroke="#111"
+              strokeDasharray="6 3"
+              ifOverflow="hidden"
+            />
+          )}
+          <Scatter
+            data={points}
+            isAnimationActive={false}
+            onMouseEnter={(point: { payload?: ScatterPoint }) =>
+              onHover(point.payload?.statcode ?? null)
+            }
+            onMouseLeave={() => onHover(null)}
+          >
+            {points.map((point) => (
+              <Cell
+                key={point.statcode}
+                fill={colors[point.statcode]}
+                fillOpacity={!selected || selected.has(point.statcode) ? 0.8 : 0.15}
+              />
+            ))}
+          </Scatter>
+          {hoveredPoint && (
+            <Scatter
+              data={[hoveredPoint]}
+              fill={colors[hoveredPoint.statcode]}
+              stroke="#111"
+              strokeWidth={2}
+              isAnimationActive={false}
+            />
+          )}
+        </ScatterChart>
+      </ResponsiveContainer>
+      {drag && (
+        <div
+          className="absolute pointer-events-none border border-slate-500 bg-slate-400/20"
+          style={{
+            left: Math.min(drag.start.x, drag.end.x),
+            top: Math.min(drag.start.y, drag.end.y),
+            width: Math.abs(drag.end.x - drag.start.x),
+            height: Math.abs(drag.end.y - drag.start.y),
+          }}
+        />
+      )}
+    </div>
+  );
+}
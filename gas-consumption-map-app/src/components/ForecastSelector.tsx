@@ -0,0 +1,52 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card } from "@/components/ui/card";
+import { FORECAST_END_YEAR, FORECAST_INTERVAL, FORECAST_MODELS } from "@/utils/forecastUtils";
+import type { ForecastModel } from "@/types";
+
+const NO_FORECAST = "none";
+
+interface ForecastSelectorProps {
+  model: ForecastModel | null;
+  onChange: (model: ForecastModel | null) => void;
+}
+
+export function ForecastSelector({ model, onChange }: ForecastSelectorProps) {
+  const description = FORECAST_MODELS.find((m) => m.value === model)?.description;
+
+  return (
+    <Card className="p-3 gap-1">
+      <div className="flex items-center gap-2">
+        <label className="text-sm font-medium">Forecast</label>
+        <Select
+          value={model ?? NO_FORECAST}
+          onValueChange={(value) =>
+            onChange(value === NO_FORECAST ? null : (value as ForecastModel))
+          }
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_FORECAST}>No forecast</SelectItem>
+            {FORECAST_MODELS.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {description && (
+        <p className="text-xs text-muted-foreground max-w-64">
+          {description}; to {FORECAST_END_YEAR} with {FORECAST_INTERVAL} prediction intervals
+        </p>
+      )}
+    </Card>
+  );
+}
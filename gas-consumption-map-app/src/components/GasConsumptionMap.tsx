@@ -1,149 +1,386 @@
-import { useEffect, useState, useMemo } from "react";
-import { useNavigate } from "react-router-dom";
-import { MapContainer, TileLayer, GeoJSON } from "react-leaflet";
-import type { Layer, LeafletMouseEvent } from "leaflet";
+import { useState, useMemo, useCallback, useEffect, useRef } from "react";
+import { MapContainer, GeoJSON, useMap, useMapEvents } from "react-leaflet";
+import { geoJSON } from "leaflet";
+import type { GeoJSON as GeoJSONLayer, Layer, LeafletMouseEvent } from "leaflet";
 import type { Feature } from "geojson";
-import type { GasConsumptionData, ConsumptionByMunicipality } from "@/types";
+import type {
+  AggregationLevel,
+  AverageSource,
+  ChangeSettings,
+  Classification,
+  ConsumptionByMunicipality,
+  ForecastModel,
+  HousingType,
+  MapOverlay,
+  MapViewport,
+  Metric,
+} from "@/types";
+import { useData } from "@/context/DataContext";
+import { getMetricDefinition, getMunicipalityPath } from "@/utils/dataUtils";
+import { getChangeByMunicipality } from "@/utils/indexUtils";
+import { getForecastIndex } from "@/utils/forecastUtils";
+import { getRegionPath } from "@/utils/regionUtils";
 import {
-  loadGasConsumptionData,
-  loadMunicipalityGeoJSON,
-  getConsumptionByYear,
-  getConsumptionRange,
-  getColorForConsumption,
-  normalizeMunicipalityName,
-  slugify,
-} from "@/utils/dataUtils";
+  classify,
+  classifyDiverging,
+  getClassColor,
+  NO_DATA_COLOR,
+} from "@/utils/classificationUtils";
 import { MunicipalityInfo } from "./MunicipalityInfo";
+import { Legend } from "./Legend";
+import { LoadError } from "./LoadError";
+import { Basemap } from "./Basemap";
+import { AnimationExport } from "./AnimationExport";
 import "leaflet/dist/leaflet.css";
 
 interface GasConsumptionMapProps {
   selectedYear: number;
+  housingType: HousingType;
+  metric: Metric;
+  // Provinces and landsdelen use their own boundaries and CBS averages
+  level: AggregationLevel;
+  classification: Classification;
+  // Colours by change between two years instead of by value when set
+  change: ChangeSettings | null;
+  weatherCorrected: boolean;
+  // Adds forecast years to the index, selectable like reported ones
+  forecast: ForecastModel | null;
+  // Years and time per year of the exported animation
+  animationYears: number[];
+  frameDuration: number;
+  // Pinned municipality, shown when nothing is hovered
+  selectedStatcode: string | null;
+  onSelect: (statcode: string | null) => void;
+  // Restored when it differs from the current view; null keeps the initial view
+  viewport: MapViewport | null;
+  onViewportChange: (viewport: MapViewport) => void;
+  // Flies to a municipality; a new object flies again to the same one
+  flyTo: { statcode: string } | null;
+  // Colours by these values or categories instead of the metric or its
+  // change when set
+  overlay?: MapOverlay | null;
+}
+
+const INITIAL_VIEWPORT: MapViewport = { zoom: 8, center: [52.2, 5.5] };
+
+// Keeps the Leaflet view and the viewport prop in sync in both directions.
+function ViewportSync({
+  viewport,
+  onViewportChange,
+}: {
+  viewport: MapViewport | null;
+  onViewportChange: (viewport: MapViewport) => void;
+}) {
+  const map = useMap();
+
+  useMapEvents({
+    moveend: () => {
+      const center = map.getCenter();
+      onViewportChange({ zoom: map.getZoom(), center: [center.lat, center.lng] });
+    },
+  });
+
+  useEffect(() => {
+    const { zoom, center } = viewport ?? INITIAL_VIEWPORT;
+    const current = map.getCenter();
+    // URLs round the centre to 4 decimals, so compare with that tolerance
+    if (
+      map.getZoom() !== zoom ||
+      Math.abs(current.lat - center[0]) > 1e-4 ||
+      Math.abs(current.lng - center[1]) > 1e-4
+    ) {
+      map.setView(center, zoom);
+    }
+  }, [map, viewport]);
+
+  return null;
+}
+
+function FlyToFeature({
+  geoData,
+  request,
+}: {
+  geoData: GeoJSON.FeatureCollection;
+  request: { statcode: string } | null;
+}) {
+  const map = useMap();
+
+  useEffect(() => {
+    const feature = geoData.features.find((f) => f.properties?.statcode === request?.statcode);
+    if (feature) {
+      map.flyToBounds(geoJSON(feature).getBounds(), { padding: [40, 40], maxZoom: 11 });
+    }
+  }, [map, geoData, request]);
+
+  return null;
 }
 
 interface TooltipData {
   name: string;
   consumption: number | null;
+  // reported value when consumption is weather-corrected
+  rawConsumption: number | null;
   nationalAverage: number;
+  averageSource: AverageSource;
   yearOverYearChange: number | null;
   rank: number;
   totalMunicipalities: number;
   sparklineData: { year: number; value: number }[];
   color: string;
+  periodChange: (ChangeSettings & { value: number | null }) | null;
+  // regional value is a mean of municipalities instead of a CBS figure
+  estimated: boolean;
+  forecast: { lower: number; upper: number } | null;
+  overlay: { label: string; text: string | null } | null;
 }
 
-export function GasConsumptionMap({ selectedYear }: GasConsumptionMapProps) {
-  const navigate = useNavigate();
-  const [geoData, setGeoData] = useState<GeoJSON.FeatureCollection | null>(null);
-  const [consumptionData, setConsumptionData] = useState<GasConsumptionData | null>(null);
-  const [consumptionByMunicipality, setConsumptionByMunicipality] = useState<ConsumptionByMunicipality>({});
-  const [hoveredMunicipality, setHoveredMunicipality] = useState<string | null>(null);
-  const [consumptionRange, setConsumptionRange] = useState<{ min: number; max: number }>({ min: 0, max: 2500 });
+export function GasConsumptionMap({
+  selectedYear,
+  housingType,
+  metric,
+  level,
+  classification,
+  change,
+  weatherCorrected,
+  forecast,
+  animationYears,
+  frameDuration,
+  selectedStatcode,
+  onSelect,
+  viewport,
+  onViewportChange,
+  flyTo,
+  overlay = null,
+}: GasConsumptionMapProps) {
+  const { geoData: municipalGeoData, regionGeoData, error, retry, getIndex } = useData();
+  const geoData = level === "municipality" ? municipalGeoData : regionGeoData[level];
+  const geoJsonRef = useRef<GeoJSONLayer>(null);
+  const [hoveredStatcode, setHoveredStatcode] = useState<string | null>(null);
 
-  useEffect(() => {
-    async function loadData() {
-      const [geo, consumption] = await Promise.all([
-        loadMunicipalityGeoJSON(),
-        loadGasConsumptionData(),
-      ]);
-      setGeoData(geo);
-      setConsumptionData(consumption);
-      setConsumptionRange(getConsumptionRange(consumption));
-    }
-    loadData();
-  }, []);
+  // The boundary files hold today's municipalities, so the map shows the data
+  // on current boundaries
+  const index = useMemo(() => {
+    const reported = getIndex(housingType, metric, "current", weatherCorrected, level);
+    return reported && forecast ? getForecastIndex(reported, forecast, metric) : reported;
+  }, [getIndex, housingType, metric, weatherCorrected, level, forecast]);
+  const metricDefinition = getMetricDefinition(metric);
 
-  useEffect(() => {
-    if (consumptionData) {
-      setConsumptionByMunicipality(getConsumptionByYear(consumptionData, selectedYear));
+  const getValuesForYear = useCallback(
+    (year: number) => {
+      const result: ConsumptionByMunicipality = {};
+      for (const record of index?.byYear.get(year) ?? []) {
+        if (record.statcode) result[record.statcode] = record.value;
+      }
+      return result;
+    },
+    [index]
+  );
+
+  const consumptionByMunicipality = useMemo(
+    () => getValuesForYear(selectedYear),
+    [getValuesForYear, selectedYear]
+  );
+
+  const changeByMunicipality = useMemo(() => {
+    if (!index || !change) return null;
+    return getChangeByMunicipality(index, change);
+  }, [index, change]);
+
+  const numericOverlay = overlay?.kind === "numeric" ? overlay : null;
+  const categoryOverlay = overlay?.kind === "category" ? overlay : null;
+  const mapValues =
+    numericOverlay?.values ?? changeByMunicipality ?? consumptionByMunicipality;
+  const changeDecimals = change?.unit === "percent" ? 1 : metricDefinition.decimals;
+
+  // Values over all years, so a colour means the same in every year. Forecasts
+  // are coloured on the scale of the reported years. Exported animations
+  // always use this scale.
+  const fixedClasses = useMemo(() => {
+    const { palette, decimals } = getMetricDefinition(metric);
+    const values = [...(index?.byYear.values() ?? [])]
+      .flat()
+      .filter((r) => !r.forecast)
+      .map((r) => r.value);
+    return classify(values, classification, classification.palette ?? palette, decimals);
+  }, [index, metric, classification]);
+
+  // Overlays and changes are classified over their own values, the metric
+  // over the shown year unless the fixed scale is chosen
+  const classes = useMemo(() => {
+    const { palette, decimals } = getMetricDefinition(metric);
+    if (numericOverlay?.palette) {
+      return classify(
+        Object.values(numericOverlay.values),
+        classification,
+        classification.palette ?? numericOverlay.palette,
+        numericOverlay.decimals
+      );
     }
-  }, [consumptionData, selectedYear]);
-
-  // Calculate national average for selected year
-  const nationalAverage = useMemo(() => {
-    if (!consumptionData) return 0;
-    const yearData = consumptionData.data.filter((r) => r.year === selectedYear);
-    if (yearData.length === 0) return 0;
-    const sum = yearData.reduce((acc, r) => acc + r.gas_consumption, 0);
-    return Math.round(sum / yearData.length);
-  }, [consumptionData, selectedYear]);
-
-  // Calculate rankings for the selected year
-  const rankings = useMemo(() => {
-    const entries = Object.entries(consumptionByMunicipality)
-      .filter(([, value]) => value != null)
-      .sort(([, a], [, b]) => a - b); // Lower consumption = better rank
-
-    const rankMap: { [name: string]: number } = {};
-    entries.forEach(([name], index) => {
-      rankMap[name] = index + 1;
-    });
-    return { rankMap, total: entries.length };
-  }, [consumptionByMunicipality]);
-
-  // Get previous year consumption data
-  const previousYearConsumption = useMemo(() => {
-    if (!consumptionData) return {};
-    return getConsumptionByYear(consumptionData, selectedYear - 1);
-  }, [consumptionData, selectedYear]);
-
-  // Get sparkline data for a municipality
-  const getSparklineData = (municipalityName: string) => {
-    if (!consumptionData) return [];
-    return consumptionData.data
-      .filter((r) => r.municipality === municipalityName)
-      .sort((a, b) => a.year - b.year)
-      .map((r) => ({ year: r.year, value: r.gas_consumption }));
-  };
+    if (numericOverlay) {
+      return classifyDiverging(
+        Object.values(numericOverlay.values),
+        classification.classCount,
+        numericOverlay.decimals
+      );
+    }
+    if (changeByMunicipality) {
+      return classifyDiverging(
+        Object.values(changeByMunicipality),
+        classification.classCount,
+        changeDecimals
+      );
+    }
+    if (classification.scale === "all") return fixedClasses;
+    return classify(
+      Object.values(consumptionByMunicipality),
+      classification,
+      classification.palette ?? palette,
+      decimals
+    );
+  }, [
+    metric,
+    classification,
+    numericOverlay,
+    changeByMunicipality,
+    changeDecimals,
+    fixedClasses,
+    consumptionByMunicipality,
+  ]);
+
+  const getColor = useCallback(
+    (statcode: string) => {
+      if (!categoryOverlay) return getClassColor(mapValues[statcode], classes);
+      const category = categoryOverlay.values[statcode];
+      return (
+        categoryOverlay.categories.find((c) => c.value === category)?.color ?? NO_DATA_COLOR
+      );
+    },
+    [categoryOverlay, mapValues, classes]
+  );
+
+  const legendTitle =
+    overlay?.title ??
+    `${
+      change
+        ? `Change ${change.fromYear}–${change.toYear} (${
+            change.unit === "percent" ? "%" : metricDefinition.unitLabel
+          })`
+        : `${metricDefinition.label} (${metricDefinition.unitLabel})`
+    }${index?.weatherCorrected ? ", weather-corrected" : ""}${
+      !change && index?.byYear.get(selectedYear)?.[0]?.forecast ? ", forecast" : ""
+    }`;
+
+  const featureNames = useMemo(
+    () =>
+      new Map(
+        (geoData?.features ?? []).map(
+          (f) => [f.properties?.statcode as string, f.properties?.statnaam as string] as const
+        )
+      ),
+    [geoData]
+  );
+
+  const getOverlayText = useCallback(
+    (statcode: string) => {
+      if (categoryOverlay) {
+        const category = categoryOverlay.categories.find(
+          (c) => c.value === categoryOverlay.values[statcode]
+        );
+        const detail = categoryOverlay.details?.[statcode];
+        return category ? `${category.label}${detail ? ` (${detail})` : ""}` : null;
+      }
+      const value = numericOverlay?.values[statcode];
+      if (!numericOverlay || value === undefined) return null;
+      // Diverging values are differences, so they carry a sign
+      const sign = !numericOverlay.palette && value > 0 ? "+" : "";
+      return `${sign}${value.toLocaleString(undefined, {
+        maximumFractionDigits: numericOverlay.decimals,
+      })} ${numericOverlay.unit}`.trim();
+    },
+    [categoryOverlay, numericOverlay]
+  );
+
+  // The hovered municipality takes precedence over the pinned one
+  const focused = hoveredStatcode ?? selectedStatcode;
 
-  // Build tooltip data for hovered municipality
   const tooltipData: TooltipData | null = useMemo(() => {
-    if (!hoveredMunicipality || !consumptionData) return null;
+    if (!focused || !index) return null;
+
+    const records = index.byStatcode.get(focused) ?? [];
+    const sparklineData = records.map((r) => ({ year: r.year, value: r.value }));
 
-    const normalizedName = normalizeMunicipalityName(hoveredMunicipality);
-    const consumption = consumptionByMunicipality[normalizedName] ?? null;
-    const prevConsumption = previousYearConsumption[normalizedName];
+    const current = records.find((r) => r.year === selectedYear);
+    const previous = records.find((r) => r.year === selectedYear - 1);
+    const consumption = current?.value ?? null;
 
     const yearOverYearChange =
-      consumption !== null && prevConsumption != null
-        ? ((consumption - prevConsumption) / prevConsumption) * 100
-        : null;
+      current && previous ? ((current.value - previous.value) / previous.value) * 100 : null;
 
-    const color = consumption !== null
-      ? getColorForConsumption(consumption)
-      : "#ccc";
+    const color = getColor(focused);
 
     return {
-      name: hoveredMunicipality,
+      name: records.at(-1)?.municipality ?? featureNames.get(focused) ?? focused,
       consumption,
-      nationalAverage,
+      rawConsumption:
+        index.weatherCorrected && !current?.forecast ? (current?.rawValue ?? null) : null,
+      nationalAverage: index.nationalAverages.get(selectedYear) ?? 0,
+      averageSource: index.averageSources.get(selectedYear) ?? "unweighted",
       yearOverYearChange,
-      rank: rankings.rankMap[normalizedName] ?? 0,
-      totalMunicipalities: rankings.total,
-      sparklineData: getSparklineData(hoveredMunicipality),
+      rank: current?.rank ?? 0,
+      totalMunicipalities: index.byYear.get(selectedYear)?.length ?? 0,
+      sparklineData,
       color,
+      periodChange: change
+        ? { ...change, value: changeByMunicipality?.[focused] ?? null }
+        : null,
+      estimated: current?.estimated?.includes(metric) ?? false,
+      forecast: current?.forecast ?? null,
+      overlay: overlay ? { label: overlay.label, text: getOverlayText(focused) } : null,
     };
-  }, [hoveredMunicipality, consumptionData, consumptionByMunicipality, previousYearConsumption, nationalAverage, rankings, consumptionRange]);
+  }, [
+    focused,
+    featureNames,
+    index,
+    metric,
+    selectedYear,
+    getColor,
+    change,
+    changeByMunicipality,
+    overlay,
+    getOverlayText,
+  ]);
 
-  const style = (feature: Feature | undefined) => {
-    if (!feature?.properties) return {};
+  // A new style function makes react-leaflet restyle the existing layers in
+  // place, so changing the year does not rebuild the GeoJSON layer.
+  const style = useCallback(
+    (feature: Feature | undefined) => {
+      if (!feature?.properties) return {};
 
-    const name = normalizeMunicipalityName(feature.properties.statnaam);
-    const consumption = consumptionByMunicipality[name];
+      const selected = feature.properties.statcode === selectedStatcode;
+      return {
+        fillColor: getColor(feature.properties.statcode),
+        weight: selected ? 3 : 1,
+        opacity: 1,
+        color: selected ? "#111" : "#666",
+        fillOpacity: 0.7,
+      };
+    },
+    [getColor, selectedStatcode]
+  );
 
-    return {
-      fillColor: getColorForConsumption(consumption),
-      weight: 1,
-      opacity: 1,
-      color: "#666",
-      fillOpacity: 0.7,
-    };
-  };
+  // Layer handlers are bound once, so they read the latest callback and
+  // selection through a ref.
+  const selectRef = useRef({ onSelect, selectedStatcode });
+  useEffect(() => {
+    selectRef.current = { onSelect, selectedStatcode };
+  }, [onSelect, selectedStatcode]);
 
   const onEachFeature = (feature: Feature, layer: Layer) => {
     layer.on({
       mouseover: (e: LeafletMouseEvent) => {
-        const name = feature.properties?.statnaam;
-        setHoveredMunicipality(name);
+        if (feature.properties) {
+          setHoveredStatcode(feature.properties.statcode);
+        }
 
         const target = e.target;
         target.setStyle({
@@ -154,22 +391,28 @@ export function GasConsumptionMap({ selectedYear }: GasConsumptionMapProps) {
         target.bringToFront();
       },
       mouseout: (e: LeafletMouseEvent) => {
-        setHoveredMunicipality(null);
-        e.target.setStyle({
-          weight: 1,
-          color: "#666",
-        });
+        setHoveredStatcode(null);
+        geoJsonRef.current?.resetStyle(e.target);
       },
       click: () => {
-        const name = feature.properties?.statnaam;
-        if (name) {
-          navigate(`/municipality/${slugify(name)}`);
+        const statcode = feature.properties?.statcode;
+        if (statcode) {
+          const { onSelect, selectedStatcode } = selectRef.current;
+          onSelect(statcode === selectedStatcode ? null : statcode);
         }
       },
     });
   };
 
-  if (!geoData || !consumptionData) {
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-full p-6">
+        <LoadError error={error} onRetry={retry} />
+      </div>
+    );
+  }
+
+  if (!geoData || !index) {
     return (
       <div className="flex items-center justify-center h-full text-lg text-muted-foreground">
         Loading map data...
@@ -180,28 +423,76 @@ export function GasConsumptionMap({ selectedYear }: GasConsumptionMapProps) {
   return (
     <div className="h-full w-full relative">
       <MapContainer
-        center={[52.2, 5.5]}
-        zoom={8}
+        center={(viewport ?? INITIAL_VIEWPORT).center}
+        zoom={(viewport ?? INITIAL_VIEWPORT).zoom}
         minZoom={8}
         style={{ height: "100%", width: "100%" }}
       >
-        <TileLayer
-          attribution='&copy; <a href="https://carto.com/">CARTO</a>'
-          url="https://{s}.basemaps.cartocdn.com/light_nolabels/{z}/{x}/{y}{r}.png"
-        />
+        <Basemap attribution />
+        <ViewportSync viewport={viewport} onViewportChange={onViewportChange} />
+        <FlyToFeature geoData={geoData} request={flyTo} />
         <GeoJSON
-          key={selectedYear}
+          // The layer only reads its data once, so each level gets its own
+          key={level}
+          ref={geoJsonRef}
           data={geoData}
           style={style}
           onEachFeature={onEachFeature}
         />
       </MapContainer>
 
-      {tooltipData && (
+      <div className="absolute bottom-6 left-3 z-[1000]">
+        {categoryOverlay ? (
+          <Legend
+            title={categoryOverlay.title}
+            categories={categoryOverlay.categories.map(({ label, color }) => ({ label, color }))}
+          />
+        ) : (
+          <Legend
+            classes={classes}
+            title={legendTitle}
+            decimals={
+              numericOverlay
+                ? numericOverlay.decimals
+                : change
+                  ? changeDecimals
+                  : metricDefinition.decimals
+            }
+          />
+        )}
+      </div>
+
+      {!change && !overlay && (
+        <div className="absolute bottom-6 right-3 z-[1000]">
+          <AnimationExport
+            getOptions={() => ({
+              geoData,
+              frames: animationYears.map((year) => ({ year, values: getValuesForYear(year) })),
+              classes: fixedClasses,
+              title: legendTitle,
+              decimals: metricDefinition.decimals,
+              frameDuration,
+            })}
+            filename={`${metric}-${housingType}-${animationYears[0]}-${animationYears.at(-1)}`}
+          />
+        </div>
+      )}
+
+      {tooltipData && focused && (
         <div className="absolute top-3 right-3 z-[1000]">
           <MunicipalityInfo
             data={tooltipData}
             year={selectedYear}
+            housingType={housingType}
+            metric={metric}
+            pinned={hoveredStatcode === null}
+            level={level}
+            detailsPath={
+              level === "municipality"
+                ? getMunicipalityPath(tooltipData.name, focused)
+                : getRegionPath(focused)
+            }
+            onClose={() => onSelect(null)}
           />
         </div>
       )}
@@ -0,0 +1,40 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card } from "@/components/ui/card";
+import { HOUSING_TYPES } from "@/utils/dataUtils";
+import type { HousingType } from "@/types";
+
+interface HousingTypeSelectorProps {
+  selectedHousingType: HousingType;
+  onChange: (housingType: HousingType) => void;
+}
+
+export function HousingTypeSelector({ selectedHousingType, onChange }: HousingTypeSelectorProps) {
+  return (
+    <Card className="p-3 gap-2">
+      <div className="flex items-center gap-2">
+        <label className="text-sm font-medium">Housing type</label>
+        <Select
+          value={selectedHousingType}
+          onValueChange={(value) => onChange(value as HousingType)}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {HOUSING_TYPES.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </Card>
+  );
+}
@@ -1,38 +1,48 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { getColorForConsumption } from "@/utils/dataUtils";
+import { NO_DATA_COLOR } from "@/utils/classificationUtils";
+import type { ClassBreaks } from "@/types";
 
-interface LegendProps {
-  min: number;
-  max: number;
+interface LegendItem {
+  color: string;
+  label: string;
 }
 
-export function Legend({ min, max }: LegendProps) {
-  const steps = 5;
-  const stepSize = (max - min) / steps;
+// Class ranges, or named categories for categorical layers
+type LegendProps = { title: string } & (
+  | { classes: ClassBreaks; decimals: number }
+  | { categories: LegendItem[] }
+);
 
-  const items = [];
-  for (let i = 0; i <= steps; i++) {
-    const value = min + stepSize * i;
-    items.push({
-      value: Math.round(value),
-      color: getColorForConsumption(value),
-    });
-  }
+function getClassItems(classes: ClassBreaks, decimals: number): LegendItem[] {
+  const format = (value: number) =>
+    value.toLocaleString(undefined, { maximumFractionDigits: decimals });
+
+  const bounds = [classes.min, ...classes.breaks, classes.max];
+  return classes.colors.slice(0, classes.breaks.length + 1).map((color, index) => ({
+    color,
+    label: `${format(bounds[index])} – ${format(bounds[index + 1])}`,
+  }));
+}
+
+export function Legend(props: LegendProps) {
+  const { title } = props;
+  const items =
+    "categories" in props ? props.categories : getClassItems(props.classes, props.decimals);
 
   return (
     <Card className="p-3 gap-2">
       <CardHeader className="p-0">
-        <CardTitle className="text-xs">Gas Consumption (m³/dwelling/year)</CardTitle>
+        <CardTitle className="text-xs">{title}</CardTitle>
       </CardHeader>
       <CardContent className="p-0">
         <div className="flex flex-col gap-1">
-          {items.map((item, index) => (
-            <div key={index} className="flex items-center gap-2">
+          {[...items, { color: NO_DATA_COLOR, label: "No data" }].map((item) => (
+            <div key={item.label} className="flex items-center gap-2">
               <span
                 className="w-5 h-3.5 rounded-sm border border-gray-400"
                 style={{ backgroundColor: item.color }}
               />
-              <span className="text-xs text-muted-foreground">{item.value}</span>
+              <span className="text-xs text-muted-foreground">{item.label}</span>
             </div>
           ))}
         </div>
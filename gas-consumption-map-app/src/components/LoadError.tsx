@@ -0,0 +1,42 @@
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DataValidationError } from "@/utils/validation";
+
+interface LoadErrorProps {
+  error: Error;
+  onRetry: () => void;
+}
+
+export function LoadError({ error, onRetry }: LoadErrorProps) {
+  const issues = error instanceof DataValidationError ? error.issues : [];
+
+  return (
+    <Card className="max-w-lg w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-red-500" />
+          Could not load data
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">{error.message}</p>
+        {issues.length > 0 && (
+          <ul className="text-xs font-mono text-muted-foreground space-y-1 max-h-40 overflow-y-auto">
+            {issues.map((issue, index) => (
+              <li key={index}>
+                {issue.path || "(root)"}: {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
+        <button
+          onClick={onRetry}
+          className="inline-flex items-center gap-2 bg-slate-800 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-slate-700 transition-colors"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Retry
+        </button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,40 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card } from "@/components/ui/card";
+import { METRICS } from "@/utils/dataUtils";
+import type { Metric } from "@/types";
+
+interface MetricSelectorProps {
+  selectedMetric: Metric;
+  onChange: (metric: Metric) => void;
+}
+
+export function MetricSelector({ selectedMetric, onChange }: MetricSelectorProps) {
+  return (
+    <Card className="p-3 gap-2">
+      <div className="flex items-center gap-2">
+        <label className="text-sm font-medium">Metric</label>
+        <Select
+          value={selectedMetric}
+          onValueChange={(value) => onChange(value as Metric)}
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {METRICS.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </Card>
+  );
+}
@@ -1,43 +1,105 @@
-import { TrendingDown, TrendingUp, Minus } from "lucide-react";
+import { Link } from "react-router-dom";
+import { TrendingDown, TrendingUp, Minus, X } from "lucide-react";
 import { LineChart, Line, ResponsiveContainer, YAxis } from "recharts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { AddToCompareButton } from "./AddToCompareButton";
+import {
+  DEFAULT_HOUSING_TYPE,
+  getHousingTypeLabel,
+  getMetricDefinition,
+} from "@/utils/dataUtils";
+import { getAverageSourceLabel } from "@/utils/averageUtils";
+import { FORECAST_INTERVAL } from "@/utils/forecastUtils";
+import type {
+  AggregationLevel,
+  AverageSource,
+  ChangeSettings,
+  HousingType,
+  Metric,
+} from "@/types";
 
 interface TooltipData {
   name: string;
   consumption: number | null;
+  // reported value when consumption is weather-corrected
+  rawConsumption: number | null;
   nationalAverage: number;
+  averageSource: AverageSource;
   yearOverYearChange: number | null;
   rank: number;
   totalMunicipalities: number;
   sparklineData: { year: number; value: number }[];
   color: string;
+  periodChange: (ChangeSettings & { value: number | null }) | null;
+  estimated: boolean;
+  // prediction interval when the year is a forecast
+  forecast: { lower: number; upper: number } | null;
+  // value of a map overlay, such as a model residual
+  overlay: { label: string; text: string | null } | null;
 }
 
 interface MunicipalityInfoProps {
   data: TooltipData;
   year: number;
+  housingType: HousingType;
+  metric: Metric;
+  level: AggregationLevel;
+  // Pinned cards stay open and link to the detail page
+  pinned: boolean;
+  detailsPath: string;
+  onClose: () => void;
 }
 
-export function MunicipalityInfo({ data, year }: MunicipalityInfoProps) {
+export function MunicipalityInfo({
+  data,
+  year,
+  housingType,
+  metric,
+  level,
+  pinned,
+  detailsPath,
+  onClose,
+}: MunicipalityInfoProps) {
+  const { label: metricLabel, unit, axisPadding } = getMetricDefinition(metric);
   const {
     name,
     consumption,
+    rawConsumption,
     nationalAverage,
+    averageSource,
     yearOverYearChange,
     rank,
     totalMunicipalities,
     sparklineData,
     color,
+    periodChange,
+    estimated,
+    forecast,
+    overlay,
   } = data;
 
   if (consumption === null) {
     return (
       <Card className="p-3 gap-2 min-w-56">
-        <CardHeader className="p-0">
+        <CardHeader className="p-0 flex items-center">
           <CardTitle className="text-sm">{name}</CardTitle>
+          {pinned && (
+            <button
+              onClick={onClose}
+              aria-label="Close"
+              className="ml-auto text-muted-foreground hover:text-foreground"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
         </CardHeader>
         <CardContent className="p-0">
-          <p className="text-sm text-muted-foreground">No data available for {year}</p>
+          <p className="text-sm text-muted-foreground">No {metricLabel.toLowerCase()} data available for {year}</p>
+          {pinned && (
+            <Link to={detailsPath} className="text-blue-600 hover:underline text-xs">
+              View details
+            </Link>
+          )}
         </CardContent>
       </Card>
     );
@@ -74,6 +136,15 @@ export function MunicipalityInfo({ data, year }: MunicipalityInfoProps) {
             style={{ backgroundColor: color }}
           />
           <CardTitle className="text-base leading-tight">{name}</CardTitle>
+          {pinned && (
+            <button
+              onClick={onClose}
+              aria-label="Close"
+              className="ml-auto text-muted-foreground hover:text-foreground"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
         </div>
       </CardHeader>
 
@@ -81,9 +152,28 @@ export function MunicipalityInfo({ data, year }: MunicipalityInfoProps) {
         {/* Main consumption value */}
         <div>
           <div className="text-2xl font-bold">
-            {consumption.toLocaleString()} <span className="text-sm font-normal text-muted-foreground">m³</span>
+            {consumption.toLocaleString()} <span className="text-sm font-normal text-muted-foreground">{unit}</span>
           </div>
-          <div className="text-xs text-muted-foreground">per dwelling ({year})</div>
+          <div className="text-xs text-muted-foreground">
+            {metricLabel}{unit === "%" ? " of dwellings" : " per dwelling"}
+            {housingType !== DEFAULT_HOUSING_TYPE && <> · {getHousingTypeLabel(housingType)}</>} ({year})
+          </div>
+          {forecast && (
+            <div className="text-xs text-muted-foreground">
+              Forecast · {FORECAST_INTERVAL} interval {forecast.lower.toLocaleString()}–
+              {forecast.upper.toLocaleString()} {unit}
+            </div>
+          )}
+          {rawConsumption !== null && (
+            <div className="text-xs text-muted-foreground">
+              Weather-corrected · reported {rawConsumption.toLocaleString()} {unit}
+            </div>
+          )}
+          {level !== "municipality" && !forecast && (
+            <div className="text-xs text-muted-foreground">
+              {estimated ? "Mean of its municipalities (not published by CBS)" : "CBS regional average"}
+            </div>
+          )}
         </div>
 
         {/* Sparkline */}
@@ -91,7 +181,10 @@ export function MunicipalityInfo({ data, year }: MunicipalityInfoProps) {
           <div className="h-12 w-full">
             <ResponsiveContainer width="100%" height="100%">
               <LineChart data={sparklineData}>
-                <YAxis domain={["dataMin - 50", "dataMax + 50"]} hide />
+                <YAxis
+                  domain={[`dataMin - ${axisPadding / 2}`, `dataMax + ${axisPadding / 2}`]}
+                  hide
+                />
                 <Line
                   type="monotone"
                   dataKey="value"
@@ -112,7 +205,12 @@ export function MunicipalityInfo({ data, year }: MunicipalityInfoProps) {
         <div className="grid grid-cols-2 gap-2 text-sm">
           {/* National comparison */}
           <div className="bg-slate-50 rounded px-2 py-1.5">
-            <div className="text-[10px] text-muted-foreground uppercase tracking-wide">vs Average</div>
+            <div
+              className="text-[10px] text-muted-foreground uppercase tracking-wide"
+              title={`National average: ${getAverageSourceLabel(averageSource)}`}
+            >
+              vs Average ({getAverageSourceLabel(averageSource, true)})
+            </div>
             <div className={`font-medium ${isBelowAverage ? "text-green-600" : isAboveAverage ? "text-red-600" : ""}`}>
               {isAboveAverage ? "+" : ""}{diffFromAveragePercent}%
             </div>
@@ -131,18 +229,68 @@ export function MunicipalityInfo({ data, year }: MunicipalityInfoProps) {
             </div>
           </div>
 
+          {/* Change over the selected period */}
+          {periodChange && (
+            <div className="bg-slate-50 rounded px-2 py-1.5 col-span-2">
+              <div className="text-[10px] text-muted-foreground uppercase tracking-wide">
+                {periodChange.fromYear} → {periodChange.toYear}
+              </div>
+              <div
+                className={`font-medium ${
+                  periodChange.value === null
+                    ? "text-muted-foreground"
+                    : periodChange.value < 0
+                      ? "text-green-600"
+                      : periodChange.value > 0
+                        ? "text-red-600"
+                        : ""
+                }`}
+              >
+                {periodChange.value === null
+                  ? "N/A"
+                  : `${periodChange.value > 0 ? "+" : ""}${
+                      periodChange.unit === "percent"
+                        ? `${periodChange.value.toFixed(1)}%`
+                        : `${periodChange.value.toLocaleString(undefined, {
+                            maximumFractionDigits: 1,
+                          })} ${unit}`
+                    }`}
+              </div>
+            </div>
+          )}
+
+          {overlay && (
+            <div className="bg-slate-50 rounded px-2 py-1.5 col-span-2">
+              <div className="text-[10px] text-muted-foreground uppercase tracking-wide">
+                {overlay.label}
+              </div>
+              <div className={`font-medium ${overlay.text === null ? "text-muted-foreground" : ""}`}>
+                {overlay.text ?? "N/A"}
+              </div>
+            </div>
+          )}
+
           {/* Ranking */}
           <div className="bg-slate-50 rounded px-2 py-1.5 col-span-2">
-            <div className="text-[10px] text-muted-foreground uppercase tracking-wide">Ranking (lowest = best)</div>
+            <div className="text-[10px] text-muted-foreground uppercase tracking-wide">Ranking (lowest first)</div>
             <div className="font-medium">
               #{rank} <span className="text-muted-foreground font-normal">of {totalMunicipalities}</span>
             </div>
           </div>
         </div>
 
-        {/* Click hint */}
+        {/* Click hint, or the way to the detail page once pinned */}
         <div className="text-[10px] text-muted-foreground text-center pt-1 border-t border-slate-100">
-          Click for details
+          {pinned ? (
+            <div className="flex justify-center gap-4 text-xs">
+              <Link to={detailsPath} className="text-blue-600 hover:underline">
+                View details
+              </Link>
+              {level === "municipality" && <AddToCompareButton municipality={name} />}
+            </div>
+          ) : (
+            "Click to pin"
+          )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,129 @@
+import { Fragment } from "react";
+import { Link } from "react-router-dom";
+import { GitMerge } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getMunicipalityPath } from "@/utils/dataUtils";
+import { getDissolvingMergers, getFormingMergers } from "@/utils/lineageUtils";
+import type { BoundaryMode, MunicipalMerger } from "@/types";
+
+interface MunicipalityLineageProps {
+  municipality: string;
+  statcodes: Map<string, string | null>;
+  boundaryMode: BoundaryMode;
+  onBoundaryModeChange?: (mode: BoundaryMode) => void;
+}
+
+const BOUNDARY_MODES: { value: BoundaryMode; label: string }[] = [
+  { value: "current", label: "Today's boundaries" },
+  { value: "historical", label: "Historical boundaries" },
+];
+
+function MunicipalityList({
+  names,
+  statcodes,
+}: {
+  names: string[];
+  statcodes: Map<string, string | null>;
+}) {
+  return (
+    <>
+      {names.map((name, index) => (
+        <Fragment key={name}>
+          {index > 0 && (index === names.length - 1 ? " and " : ", ")}
+          {statcodes.has(name) ? (
+            <Link
+              to={getMunicipalityPath(name, statcodes.get(name)!)}
+              className="text-blue-600 hover:underline"
+            >
+              {name}
+            </Link>
+          ) : (
+            <span>{name}</span>
+          )}
+        </Fragment>
+      ))}
+    </>
+  );
+}
+
+function describeFormingMerger(municipality: string, merger: MunicipalMerger) {
+  const others = merger.predecessors.filter((name) => name !== municipality);
+  if (merger.predecessors.includes(municipality)) {
+    return { verb: "Absorbed", names: others };
+  }
+  if (others.length === 1) {
+    return { verb: "Renamed from", names: others };
+  }
+  return { verb: "Formed from", names: others };
+}
+
+export function MunicipalityLineage({
+  municipality,
+  statcodes,
+  boundaryMode,
+  onBoundaryModeChange,
+}: MunicipalityLineageProps) {
+  const formingMergers = getFormingMergers(municipality);
+  const dissolvingMergers = getDissolvingMergers(municipality);
+
+  if (formingMergers.length === 0 && dissolvingMergers.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <GitMerge className="w-4 h-4 text-muted-foreground" />
+          Municipal Reorganisations
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <ul className="space-y-1 text-sm">
+          {formingMergers.map((merger) => {
+            const { verb, names } = describeFormingMerger(municipality, merger);
+            return (
+              <li key={merger.effectiveDate}>
+                {verb}{" "}
+                <MunicipalityList names={names} statcodes={statcodes} /> in{" "}
+                {merger.effectiveDate.slice(0, 4)}
+              </li>
+            );
+          })}
+          {dissolvingMergers.map((merger) => (
+            <li key={`${merger.successor}-${merger.effectiveDate}`}>
+              {merger.partial?.includes(municipality) ? "Partly merged into" : "Merged into"}{" "}
+              <MunicipalityList names={[merger.successor]} statcodes={statcodes} />{" "}
+              in {merger.effectiveDate.slice(0, 4)}
+            </li>
+          ))}
+        </ul>
+
+        {onBoundaryModeChange && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-muted-foreground">Show history on</span>
+            {BOUNDARY_MODES.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => onBoundaryModeChange(value)}
+                className={`px-3 py-1 rounded text-xs transition-colors ${
+                  boundaryMode === value
+                    ? "bg-slate-800 text-white font-medium"
+                    : "bg-slate-100 hover:bg-slate-200"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+            {boundaryMode === "current" && (
+              <span className="text-xs text-muted-foreground">
+                Years CBS does not report for this municipality are the mean of its
+                predecessors, weighted by dwellings where counts are available.
+              </span>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
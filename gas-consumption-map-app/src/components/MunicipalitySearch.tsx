@@ -0,0 +1,107 @@
+import { useMemo, useState, type KeyboardEvent } from "react";
+import { Search } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { useData } from "@/context/DataContext";
+import { buildSearchTerms, searchMunicipalities } from "@/utils/searchUtils";
+
+interface MunicipalitySearchProps {
+  onChoose: (statcode: string) => void;
+}
+
+const MATCH_LABELS = { alias: "also known as", former: "formerly" } as const;
+
+export function MunicipalitySearch({ onChoose }: MunicipalitySearchProps) {
+  const { data, geoData } = useData();
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+
+  const terms = useMemo(() => {
+    if (!data || !geoData) return [];
+    const features = geoData.features.map((f) => ({
+      statcode: f.properties?.statcode as string,
+      statnaam: f.properties?.statnaam as string,
+    }));
+    return buildSearchTerms(features, data);
+  }, [data, geoData]);
+
+  const results = useMemo(() => searchMunicipalities(terms, query), [terms, query]);
+
+  const choose = (statcode: string) => {
+    onChoose(statcode);
+    setQuery("");
+    setOpen(false);
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActive((i) => (i + step + results.length) % Math.max(results.length, 1));
+    } else if (e.key === "Enter" && results[active]) {
+      choose(results[active].statcode);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Card className="p-3 gap-2 relative">
+      <div className="flex items-center gap-2">
+        <Search className="w-4 h-4 text-muted-foreground" />
+        <input
+          type="search"
+          value={query}
+          placeholder="Find a municipality"
+          aria-label="Find a municipality"
+          role="combobox"
+          aria-expanded={open && results.length > 0}
+          aria-controls="municipality-search-results"
+          disabled={terms.length === 0}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActive(0);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={onKeyDown}
+          className="w-52 text-sm outline-none bg-transparent"
+        />
+      </div>
+      {open && query.trim() !== "" && (
+        <ul
+          id="municipality-search-results"
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-10 mt-1 rounded-md border bg-white shadow-md text-sm overflow-hidden"
+        >
+          {results.length === 0 ? (
+            <li className="px-3 py-2 text-muted-foreground">No municipalities found</li>
+          ) : (
+            results.map((result, i) => (
+              <li
+                key={result.statcode}
+                role="option"
+                aria-selected={i === active}
+                // mousedown fires before the input loses focus and closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  choose(result.statcode);
+                }}
+                onMouseEnter={() => setActive(i)}
+                className={`px-3 py-1.5 cursor-pointer ${i === active ? "bg-slate-100" : ""}`}
+              >
+                {result.name}
+                {result.matched && (
+                  <span className="block text-xs text-muted-foreground">
+                    {MATCH_LABELS[result.matched.kind]} {result.matched.term}
+                  </span>
+                )}
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef } from "react";
+import { MapContainer, GeoJSON } from "react-leaflet";
+import type { GeoJSON as GeoJSONLayer, Layer, Path } from "leaflet";
+import type { Feature } from "geojson";
+import { useData } from "@/context/DataContext";
+import { NO_DATA_COLOR } from "@/utils/classificationUtils";
+import { Basemap } from "./Basemap";
+import "leaflet/dist/leaflet.css";
+
+interface ScatterMiniMapProps {
+  // fill colour per statcode; municipalities without a point are left grey
+  colors: Record<string, string>;
+  // brushed municipalities; null when nothing is brushed
+  selected: Set<string> | null;
+  hovered: string | null;
+  onHover: (statcode: string | null) => void;
+}
+
+// Small map linked to the explorer's scatter plot: hovering a point outlines
+// its municipality and brushing fades every municipality outside the brush.
+export function ScatterMiniMap({ colors, selected, hovered, onHover }: ScatterMiniMapProps) {
+  const { geoData } = useData();
+
+  const style = useCallback(
+    (feature: Feature | undefined) => {
+      const statcode = feature?.properties?.statcode;
+      const color = colors[statcode];
+      const isHovered = statcode === hovered;
+      return {
+        fillColor: color ?? NO_DATA_COLOR,
+        fillOpacity: color && (!selected || selected.has(statcode)) ? 0.8 : 0.15,
+        weight: isHovered ? 3 : 0.5,
+        color: isHovered ? "#111" : "#666",
+        opacity: 1,
+      };
+    },
+    [colors, selected, hovered]
+  );
+
+  // Keeps the hovered outline on top of its neighbours
+  const geoJsonRef = useRef<GeoJSONLayer>(null);
+  useEffect(() => {
+    geoJsonRef.current?.eachLayer((layer) => {
+      const feature = (layer as Layer & { feature?: Feature }).feature;
+      if (feature?.properties?.statcode === hovered) (layer as Path).bringToFront();
+    });
+  }, [hovered]);
+
+  // Layer handlers are bound once, so they read the latest callback through a ref
+  const onHoverRef = useRef(onHover);
+  useEffect(() => {
+    onHoverRef.current = onHover;
+  }, [onHover]);
+
+  const onEachFeature = (feature: Feature, layer: Layer) => {
+    layer.on({
+      mouseover: () => onHoverRef.current(feature.properties?.statcode ?? null),
+      mouseout: () => onHoverRef.current(null),
+    });
+  };
+
+  return (
+    <MapContainer
+      center={[52.2, 5.3]}
+      zoom={7}
+      scrollWheelZoom={false}
+      zoomControl={false}
+      style={{ height: "100%", width: "100%" }}
+    >
+      <Basemap />
+      {geoData && (
+        <GeoJSON ref={geoJsonRef} data={geoData} style={style} onEachFeature={onEachFeature} />
+      )}
+    </MapContainer>
+  );
+}
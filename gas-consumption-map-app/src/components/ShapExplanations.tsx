@@ -0,0 +1,298 @@
+import { useMemo, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+  ZAxis,
+} from "recharts";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { GasConsumptionMap } from "./GasConsumptionMap";
+import { RD_BU, SET1, SET1_OTHER } from "@/data/colorBrewer";
+import { NO_DATA_COLOR, DEFAULT_CLASSIFICATION } from "@/utils/classificationUtils";
+import { getMetricDefinition } from "@/utils/dataUtils";
+import {
+  getBeeswarm,
+  getFeatureLabel,
+  getGlobalImportance,
+  getShapYears,
+  getTopFeatures,
+  MAX_SHAP_FEATURES,
+  OTHER_FEATURES,
+} from "@/utils/shapUtils";
+import type { CategoryOverlay, ShapResult } from "@/types";
+
+const ALL_YEARS = "all";
+
+// Features shown in the importance chart and the beeswarm
+const MAX_CHART_FEATURES = 12;
+
+const OTHER_CATEGORY = "__other__";
+
+// High feature values red, low ones blue, as in the shap package
+function getLevelColor(level: number | null): string {
+  if (level === null) return NO_DATA_COLOR;
+  const colors = RD_BU[9];
+  return colors[Math.round((1 - level) * (colors.length - 1))];
+}
+
+function ignoreViewport() {}
+
+interface ShapExplanationsProps {
+  results: ShapResult[];
+}
+
+// Global importance, beeswarm and top-feature map of one SHAP file. The
+// beeswarm and map show one year: the selected one or the latest.
+export function ShapExplanations({ results }: ShapExplanationsProps) {
+  const [selectedSource, setSelectedSource] = useState<string | null>(null);
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const [selectedStatcode, setSelectedStatcode] = useState<string | null>(null);
+
+  const result = useMemo(
+    () => results.find((r) => r.source === selectedSource) ?? results[0],
+    [results, selectedSource]
+  );
+  const { label: metricLabel, unit, decimals } = getMetricDefinition(result.metric);
+  const years = useMemo(() => [...getShapYears(result)].reverse(), [result]);
+  const year = selectedYear !== null && years.includes(selectedYear) ? selectedYear : null;
+  const snapshotYear = year ?? years[0];
+
+  const importance = useMemo(
+    () => getGlobalImportance(result, year).slice(0, MAX_CHART_FEATURES),
+    [result, year]
+  );
+
+  const beeswarm = useMemo(
+    () => getBeeswarm(result, importance.map((i) => i.feature), snapshotYear),
+    [result, importance, snapshotYear]
+  );
+  const hasFeatureValues = beeswarm.some((row) => row.some((p) => p.level !== null));
+
+  const overlay: CategoryOverlay = useMemo(() => {
+    const { unit, decimals } = getMetricDefinition(result.metric);
+    const top = getTopFeatures(result, snapshotYear);
+    // The most important features get their own colour, in order of importance
+    const ranked = getGlobalImportance(result, snapshotYear).map((i) => i.feature);
+    const present = new Set(Object.values(top).map((t) => t.feature));
+    const colored = ranked.filter((f) => present.has(f)).slice(0, MAX_SHAP_FEATURES);
+
+    const values: Record<string, string> = {};
+    const details: Record<string, string> = {};
+    for (const [statcode, { feature, shap }] of Object.entries(top)) {
+      values[statcode] = colored.includes(feature) ? feature : OTHER_CATEGORY;
+      details[statcode] = `${shap > 0 ? "+" : ""}${shap.toLocaleString(undefined, {
+        maximumFractionDigits: decimals,
+      })} ${unit}`;
+    }
+
+    const categories = [
+      ...colored.map((feature, i) => ({
+        value: feature,
+        label: getFeatureLabel(result, feature),
+        color: SET1[i],
+      })),
+      ...(present.size > colored.length
+        ? [{ value: OTHER_CATEGORY, label: OTHER_FEATURES, color: SET1_OTHER }]
+        : []),
+    ];
+    return {
+      kind: "category",
+      values,
+      categories,
+      title: `Largest contribution, ${snapshotYear}`,
+      label: "Largest contribution",
+      details,
+    };
+  }, [result, snapshotYear]);
+
+  return (
+    <>
+      <div className="flex flex-wrap justify-end gap-2">
+        {results.length > 1 && (
+          <Card className="p-3">
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium">SHAP file</label>
+              <Select value={result.source} onValueChange={setSelectedSource}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {results.map((r) => (
+                    <SelectItem key={r.source} value={r.source}>
+                      {r.model === r.source ? r.source : `${r.model} (${r.source})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </Card>
+        )}
+        <Card className="p-3">
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-medium">Year</label>
+            <Select
+              value={year === null ? ALL_YEARS : String(year)}
+              onValueChange={(value) =>
+                setSelectedYear(value === ALL_YEARS ? null : Number(value))
+              }
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_YEARS}>All years</SelectItem>
+                {years.map((y) => (
+                  <SelectItem key={y} value={String(y)}>
+                    {y}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </Card>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              Feature importance{" "}
+              <span className="text-sm font-normal text-muted-foreground">
+                {result.model}, {year ?? "all years"}
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div style={{ height: 40 + importance.length * 28 }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={importance} layout="vertical" margin={{ left: 10, right: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                  <XAxis type="number" />
+                  <YAxis type="category" dataKey="label" width={150} interval={0} />
+                  <Tooltip
+                    formatter={(value) => [
+                      `${Number(value).toLocaleString(undefined, {
+                        maximumFractionDigits: decimals,
+                      })} ${unit}`,
+                      "Mean |SHAP value|",
+                    ]}
+                  />
+                  <Bar dataKey="importance" fill="#2563eb" isAnimationActive={false} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="mt-3 text-xs text-muted-foreground">
+              Mean absolute contribution to the predicted {metricLabel.toLowerCase()} over all
+              municipalities.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              SHAP values{" "}
+              <span className="text-sm font-normal text-muted-foreground">{snapshotYear}</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div style={{ height: 40 + importance.length * 28 }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <ScatterChart margin={{ left: 10, right: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                  <XAxis type="number" dataKey="shap" name="SHAP value" />
+                  <YAxis
+                    type="number"
+                    dataKey="y"
+                    reversed
+                    domain={[-0.5, importance.length - 0.5]}
+                    ticks={importance.map((_, i) => i)}
+                    tickFormatter={(i: number) => importance[i]?.label ?? ""}
+                    width={150}
+                    interval={0}
+                  />
+                  <ZAxis range={[12, 12]} />
+                  <ReferenceLine x={0} stroke="#6b7280" />
+                  <Tooltip
+                    cursor={false}
+                    formatter={(value, name) =>
+                      name === "SHAP value"
+                        ? [`${Number(value).toFixed(decimals)} ${unit}`, name]
+                        : [importance[Math.round(Number(value))]?.label, "Feature"]
+                    }
+                  />
+                  {beeswarm.map((points, row) => (
+                    <Scatter
+                      key={importance[row].feature}
+                      data={points}
+                      shape="circle"
+                      isAnimationActive={false}
+                    >
+                      {points.map((point) => (
+                        <Cell key={point.statcode} fill={getLevelColor(point.level)} />
+                      ))}
+                    </Scatter>
+                  ))}
+                </ScatterChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="mt-3 text-xs text-muted-foreground">
+              One point per municipality; to the right of zero a feature raises the prediction.
+              {hasFeatureValues && " Red points have a high value of the feature, blue a low one."}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Most influential feature{" "}
+            <span className="text-sm font-normal text-muted-foreground">{snapshotYear}</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-[520px] rounded overflow-hidden">
+            <GasConsumptionMap
+              selectedYear={snapshotYear}
+              housingType={result.housingType}
+              metric={result.metric}
+              level="municipality"
+              classification={DEFAULT_CLASSIFICATION}
+              change={null}
+              weatherCorrected={false}
+              forecast={null}
+              animationYears={[]}
+              frameDuration={0}
+              selectedStatcode={selectedStatcode}
+              onSelect={setSelectedStatcode}
+              viewport={null}
+              onViewportChange={ignoreViewport}
+              flyTo={null}
+              overlay={overlay}
+            />
+          </div>
+          <p className="mt-3 text-xs text-muted-foreground">
+            The feature with the largest absolute SHAP value in each municipality, raising or
+            lowering its prediction.
+          </p>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
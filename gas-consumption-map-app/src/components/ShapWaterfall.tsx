@@ -0,0 +1,138 @@
+import { useMemo, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getMetricDefinition } from "@/utils/dataUtils";
+import { findExplanation, getWaterfall } from "@/utils/shapUtils";
+import type { ShapResult } from "@/types";
+
+interface ShapWaterfallProps {
+  // SHAP files for the shown metric and housing type
+  results: ShapResult[];
+  statcode: string;
+  name: string;
+}
+
+// Explains one municipality's prediction: from the model's average prediction,
+// each feature's SHAP value moves it up (red) or down (blue).
+export function ShapWaterfall({ results, statcode, name }: ShapWaterfallProps) {
+  const available = useMemo(
+    () =>
+      results.flatMap((result) =>
+        result.explanations
+          .filter((e) => e.statcode === statcode)
+          .map((e) => ({ result, year: e.year, key: `${result.source}|${e.year}` }))
+      ),
+    [results, statcode]
+  );
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  // Latest year of the first file by default
+  const selected =
+    available.find((a) => a.key === selectedKey) ??
+    available
+      .filter((a) => a.result === available[0]?.result)
+      .reduce<(typeof available)[number] | undefined>(
+        (latest, a) => (!latest || a.year > latest.year ? a : latest),
+        undefined
+      );
+
+  const steps = useMemo(() => {
+    if (!selected) return [];
+    const explanation = findExplanation(selected.result, statcode, selected.year);
+    return explanation ? getWaterfall(selected.result, explanation) : [];
+  }, [selected, statcode]);
+
+  if (!selected || steps.length === 0) return null;
+
+  const { unit, decimals } = getMetricDefinition(selected.result.metric);
+  const format = (value: number) =>
+    value.toLocaleString(undefined, { maximumFractionDigits: decimals });
+  const baseValue = selected.result.baseValue;
+  const prediction = steps.at(-1)!.end;
+  const data = steps.map((step) => ({
+    ...step,
+    range: [Math.min(step.start, step.end), Math.max(step.start, step.end)],
+  }));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center gap-3 space-y-0">
+        <CardTitle className="mr-auto">
+          Why this prediction{" "}
+          <span className="text-sm font-normal text-muted-foreground">
+            {selected.result.model}, {selected.year}
+          </span>
+        </CardTitle>
+        {available.length > 1 && (
+          <Select value={selected.key} onValueChange={setSelectedKey}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map(({ key, result, year }) => (
+                <SelectItem key={key} value={key}>
+                  {results.length > 1 ? `${result.model}, ${year}` : year}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-muted-foreground mb-3">
+          Predicted {format(prediction)} {unit} for {name}, against an average prediction of{" "}
+          {format(baseValue)} {unit}. The largest contribution is {steps[0].label} (
+          {steps[0].shap > 0 ? "+" : ""}
+          {format(steps[0].shap)} {unit}).
+        </p>
+        <div style={{ height: 40 + data.length * 32 }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data} layout="vertical" margin={{ left: 10, right: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+              <XAxis type="number" domain={["auto", "auto"]} tickFormatter={format} />
+              <YAxis type="category" dataKey="label" width={160} interval={0} />
+              <ReferenceLine
+                x={baseValue}
+                stroke="#6b7280"
+                strokeDasharray="4 4"
+                label={{ value: "Average", position: "top", fontSize: 11 }}
+              />
+              <ReferenceLine x={prediction} stroke="#111" />
+              <Tooltip
+                formatter={(_value, _name, props) => {
+                  const shap = (props.payload as { shap: number }).shap;
+                  return [`${shap > 0 ? "+" : ""}${format(shap)} ${unit}`, "SHAP value"];
+                }}
+              />
+              <Bar dataKey="range" isAnimationActive={false}>
+                {data.map((step) => (
+                  <Cell key={step.label} fill={step.shap > 0 ? "#dc2626" : "#2563eb"} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <p className="mt-2 text-xs text-muted-foreground">
+          Largest contributions first; the solid line is the prediction.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,133 @@
+import { useEffect, useMemo, useState } from "react";
+import { Pause, Play } from "lucide-react";
+import type { YearCoverage } from "@/utils/indexUtils";
+
+interface TimelineSliderProps {
+  coverage: YearCoverage[];
+  selectedYear: number;
+  // playing is true for steps taken by playback rather than by the user
+  onYearChange: (year: number, playing: boolean) => void;
+  // milliseconds per year during playback
+  speed: number;
+  onSpeedChange: (speed: number) => void;
+  // First forecast year; years from here on are marked as forecasts
+  forecastFrom?: number | null;
+}
+
+const PLAYBACK_SPEEDS: { value: number; label: string }[] = [
+  { value: 2000, label: "0.5×" },
+  { value: 1000, label: "1×" },
+  { value: 500, label: "2×" },
+  { value: 250, label: "4×" },
+];
+
+export function TimelineSlider({
+  coverage,
+  selectedYear,
+  onYearChange,
+  speed,
+  onSpeedChange,
+  forecastFrom = null,
+}: TimelineSliderProps) {
+  const [playing, setPlaying] = useState(false);
+  const years = useMemo(() => coverage.map((c) => c.year), [coverage]);
+  const selectedCoverage = coverage.find((c) => c.year === selectedYear);
+  const position = Math.max(0, years.indexOf(selectedYear));
+  const isLast = position === years.length - 1;
+  const isForecast = (year: number) => forecastFrom !== null && year >= forecastFrom;
+
+  // Advance one year per tick and stop on the last year
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setTimeout(() => {
+      if (isLast) {
+        setPlaying(false);
+      } else {
+        onYearChange(years[position + 1], true);
+      }
+    }, speed);
+    return () => clearTimeout(timer);
+  }, [playing, isLast, position, years, speed, onYearChange]);
+
+  const togglePlaying = () => {
+    if (!playing && isLast) onYearChange(years[0], false);
+    setPlaying(!playing);
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <button
+        onClick={togglePlaying}
+        aria-label={playing ? "Pause" : "Play"}
+        className="p-1.5 rounded bg-slate-700 hover:bg-slate-600 transition-colors"
+      >
+        {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </button>
+      <div className="flex flex-col w-72">
+        <input
+          type="range"
+          min={0}
+          max={years.length - 1}
+          step={1}
+          value={position}
+          onChange={(e) => {
+            setPlaying(false);
+            onYearChange(years[Number(e.target.value)], false);
+          }}
+          className="accent-white"
+          aria-label="Year"
+        />
+        <div className="flex justify-between px-1">
+          {coverage.map(({ year, count, complete }) => (
+            <span
+              key={year}
+              title={
+                isForecast(year)
+                  ? `${year}: forecast`
+                  : complete
+                    ? String(year)
+                    : `${year}: ${count === 0 ? "no data" : `only ${count} municipalities`}`
+              }
+              className={`w-1.5 h-1.5 rounded-full ${
+                isForecast(year)
+                  ? "border border-slate-400"
+                  : complete
+                    ? "bg-slate-500"
+                    : "bg-amber-400"
+              }`}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between text-[10px] text-slate-400">
+          <span>{years[0]}</span>
+          <span>{years.at(-1)}</span>
+        </div>
+      </div>
+      <div className="flex flex-col w-20 leading-tight">
+        <span className="text-lg font-medium tabular-nums">{selectedYear}</span>
+        {isForecast(selectedYear) ? (
+          <span className="text-[10px] text-sky-300">Forecast</span>
+        ) : (
+          selectedCoverage &&
+          !selectedCoverage.complete && (
+            <span className="text-[10px] text-amber-300">
+              {selectedCoverage.count === 0 ? "No data" : "Incomplete"}
+            </span>
+          )
+        )}
+      </div>
+      <select
+        value={speed}
+        onChange={(e) => onSpeedChange(Number(e.target.value))}
+        className="bg-slate-700 rounded px-2 py-1 text-sm"
+        aria-label="Playback speed"
+      >
+        {PLAYBACK_SPEEDS.map(({ value, label }) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { Card } from "@/components/ui/card";
+import { useData } from "@/context/DataContext";
+import { isWeatherDependent } from "@/utils/weatherUtils";
+import type { Metric } from "@/types";
+
+interface WeatherToggleProps {
+  metric: Metric;
+  weatherCorrected: boolean;
+  onChange: (weatherCorrected: boolean) => void;
+}
+
+export function WeatherToggle({ metric, weatherCorrected, onChange }: WeatherToggleProps) {
+  const { weatherData, weatherError } = useData();
+  const available = weatherData !== null && isWeatherDependent(metric);
+
+  const hint = weatherError
+    ? `Degree-day table could not be loaded: ${weatherError.message}`
+    : !weatherData
+      ? "Add public/heating_degree_days.json (npm run build:hdd) to enable"
+      : !isWeatherDependent(metric)
+        ? "Only gas consumption is weather-dependent"
+        : weatherCorrected
+          ? `Scaled to an average year (degree days, base ${weatherData.metadata.base_temperature} °C)`
+          : null;
+
+  return (
+    <Card className="p-3 gap-1">
+      <label
+        className={`flex items-center gap-2 text-sm font-medium ${
+          available ? "cursor-pointer" : "text-muted-foreground"
+        }`}
+      >
+        <input
+          type="checkbox"
+          checked={available && weatherCorrected}
+          disabled={!available}
+          onChange={(e) => onChange(e.target.checked)}
+        />
+        Weather-corrected
+      </label>
+      {hint && <p className="text-xs text-muted-foreground max-w-64">{hint}</p>}
+    </Card>
+  );
+}
@@ -0,0 +1,61 @@
+import { createContext, useContext } from "react";
+import type {
+  AggregationLevel,
+  AverageMethod,
+  BoundaryMode,
+  Covariates,
+  GasConsumptionData,
+  HeatingDegreeDays,
+  HousingType,
+  Metric,
+  ModelResult,
+  RegionLevel,
+  ShapResult,
+} from "@/types";
+import type { MetricIndex } from "@/utils/indexUtils";
+
+export interface DataContextValue {
+  data: GasConsumptionData | null;
+  geoData: GeoJSON.FeatureCollection | null;
+  error: Error | null;
+  retry: () => void;
+  // Every year present in the data, ascending; empty until loaded
+  years: number[];
+  // Optional degree-day table; null when absent or invalid (see weatherError)
+  weatherData: HeatingDegreeDays | null;
+  weatherError: Error | null;
+  // Optional province and landsdeel boundaries; null when absent
+  regionGeoData: Record<RegionLevel, GeoJSON.FeatureCollection | null>;
+  regionGeoError: Error | null;
+  // Optional municipal covariates; null when absent
+  covariates: Covariates | null;
+  covariateError: Error | null;
+  // Model predictions and SHAP values from public/models and from files
+  // added in the app; files that failed to load or validate are listed in
+  // modelErrors
+  modelResults: ModelResult[];
+  shapResults: ShapResult[];
+  modelErrors: Error[];
+  addModelFiles: (files: File[]) => void;
+  // Preferred way of computing national averages, for every index in the app
+  averageMethod: AverageMethod;
+  setAverageMethod: (method: AverageMethod) => void;
+  // Cached per combination; null until the consumption data has loaded.
+  getIndex: (
+    housingType: HousingType,
+    metric: Metric,
+    boundaryMode?: BoundaryMode,
+    weatherCorrected?: boolean,
+    level?: AggregationLevel
+  ) => MetricIndex | null;
+}
+
+export const DataContext = createContext<DataContextValue | null>(null);
+
+export function useData(): DataContextValue {
+  const context = useContext(DataContext);
+  if (!context) {
+    throw new Error("useData must be used inside <DataProvider>");
+  }
+  return context;
+}
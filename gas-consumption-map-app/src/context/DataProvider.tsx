@@ -0,0 +1,181 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react";
+import { DataContext } from "./DataContext";
+import {
+  getAvailableYears,
+  loadCovariates,
+  loadGasConsumptionData,
+  loadHeatingDegreeDays,
+  loadModelFiles,
+  loadMunicipalityGeoJSON,
+  loadRegionGeoJSON,
+  readModelFile,
+} from "@/utils/dataUtils";
+import { createIndexCache } from "@/utils/indexUtils";
+import { AVERAGE_METHODS, DEFAULT_AVERAGE_METHOD } from "@/utils/averageUtils";
+import type {
+  AggregationLevel,
+  AverageMethod,
+  BoundaryMode,
+  Covariates,
+  GasConsumptionData,
+  HeatingDegreeDays,
+  HousingType,
+  Metric,
+  ModelResult,
+  RegionLevel,
+  ShapResult,
+} from "@/types";
+
+const AVERAGE_METHOD_KEY = "average-method";
+
+// The average method is remembered between visits, like the comparison list
+function getStoredAverageMethod(): AverageMethod {
+  try {
+    const stored = localStorage.getItem(AVERAGE_METHOD_KEY);
+    return AVERAGE_METHODS.find((m) => m.value === stored)?.value ?? DEFAULT_AVERAGE_METHOD;
+  } catch {
+    return DEFAULT_AVERAGE_METHOD;
+  }
+}
+
+// Adds results, replacing those of the same model and source
+function mergeModelResults<T extends ModelResult | ShapResult>(current: T[], added: T[]): T[] {
+  const isAdded = (result: T) =>
+    added.some((r) => r.model === result.model && r.source === result.source);
+  return [...current.filter((r) => !isAdded(r)), ...added];
+}
+
+// Loads the consumption data and boundaries once for the whole app, so route
+// changes reuse them instead of fetching and parsing again.
+export function DataProvider({ children }: { children: ReactNode }) {
+  const [data, setData] = useState<GasConsumptionData | null>(null);
+  const [geoData, setGeoData] = useState<GeoJSON.FeatureCollection | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [weatherData, setWeatherData] = useState<HeatingDegreeDays | null>(null);
+  const [weatherError, setWeatherError] = useState<Error | null>(null);
+  const [regionGeoData, setRegionGeoData] = useState<
+    Record<RegionLevel, GeoJSON.FeatureCollection | null>
+  >({ province: null, landsdeel: null });
+  const [regionGeoError, setRegionGeoError] = useState<Error | null>(null);
+  const [covariates, setCovariates] = useState<Covariates | null>(null);
+  const [covariateError, setCovariateError] = useState<Error | null>(null);
+  const [modelResults, setModelResults] = useState<ModelResult[]>([]);
+  const [shapResults, setShapResults] = useState<ShapResult[]>([]);
+  const [modelErrors, setModelErrors] = useState<Error[]>([]);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [averageMethod, setStoredMethod] = useState(getStoredAverageMethod);
+
+  const setAverageMethod = useCallback((method: AverageMethod) => {
+    setStoredMethod(method);
+    try {
+      localStorage.setItem(AVERAGE_METHOD_KEY, method);
+    } catch {
+      // Storage can be unavailable (private mode); the choice then lasts for the visit
+    }
+  }, []);
+
+  useEffect(() => {
+    loadGasConsumptionData().then(setData, setError);
+    loadMunicipalityGeoJSON().then(setGeoData, setError);
+    // The degree-day table is optional and must not block the rest of the app
+    loadHeatingDegreeDays().then(setWeatherData, setWeatherError);
+    // Region boundaries are optional too; without them only municipalities are shown
+    for (const level of ["province", "landsdeel"] as const) {
+      loadRegionGeoJSON(level).then(
+        (geo) => setRegionGeoData((current) => ({ ...current, [level]: geo })),
+        setRegionGeoError
+      );
+    }
+    loadCovariates().then(setCovariates, setCovariateError);
+    // Model predictions are optional as well
+    loadModelFiles().then(
+      ({ results, explanations, errors }) => {
+        setModelResults((current) => mergeModelResults(results, current));
+        setShapResults((current) => mergeModelResults(explanations, current));
+        setModelErrors((current) => [...current, ...errors]);
+      },
+      (error: Error) => setModelErrors((current) => [...current, error])
+    );
+  }, [loadAttempt]);
+
+  const addModelFiles = useCallback((files: File[]) => {
+    for (const file of files) {
+      readModelFile(file).then(
+        ({ results, explanations }) => {
+          setModelResults((current) => mergeModelResults(current, results));
+          setShapResults((current) => mergeModelResults(current, explanations));
+        },
+        (error: Error) => setModelErrors((current) => [...current, error])
+      );
+    }
+  }, []);
+
+  const retry = useCallback(() => {
+    setError(null);
+    setData(null);
+    setGeoData(null);
+    setWeatherError(null);
+    setRegionGeoError(null);
+    setCovariateError(null);
+    setModelErrors([]);
+    setLoadAttempt((attempt) => attempt + 1);
+  }, []);
+
+  const years = useMemo(() => (data ? getAvailableYears(data).reverse() : []), [data]);
+
+  const getIndex = useMemo(() => {
+    const lookup = data ? createIndexCache(data, weatherData, averageMethod) : null;
+    return (
+      housingType: HousingType,
+      metric: Metric,
+      boundaryMode?: BoundaryMode,
+      weatherCorrected?: boolean,
+      level?: AggregationLevel
+    ) => (lookup ? lookup(housingType, metric, boundaryMode, weatherCorrected, level) : null);
+  }, [data, weatherData, averageMethod]);
+
+  const value = useMemo(
+    () => ({
+      data,
+      geoData,
+      error,
+      retry,
+      years,
+      weatherData,
+      weatherError,
+      regionGeoData,
+      regionGeoError,
+      covariates,
+      covariateError,
+      modelResults,
+      shapResults,
+      modelErrors,
+      addModelFiles,
+      averageMethod,
+      setAverageMethod,
+      getIndex,
+    }),
+    [
+      data,
+      geoData,
+      error,
+      retry,
+      years,
+      weatherData,
+      weatherError,
+      regionGeoData,
+      regionGeoError,
+      covariates,
+      covariateError,
+      modelResults,
+      shapResults,
+      modelErrors,
+      addModelFiles,
+      averageMethod,
+      setAverageMethod,
+      getIndex,
+    ]
+  );
+
+  return <DataContext.Provider value={value}>{children}</DataContext.Provider>;
+}
@@ -0,0 +1,12 @@
+// Names people search for that are not a municipality's CBS region name,
+// keyed by that name. Former names from mergers are found through
+// MUNICIPAL_MERGERS and are not repeated here.
+export const MUNICIPALITY_ALIASES: Record<string, string[]> = {
+  "'s-Gravenhage (gemeente)": ["Den Haag", "The Hague"],
+  "'s-Hertogenbosch": ["Den Bosch"],
+  Dantumadiel: ["Dantumadeel"],
+  Tytsjerksteradiel: ["Tietjerksteradeel"],
+  "Súdwest-Fryslân": ["Zuidwest-Friesland"],
+  "Noardeast-Fryslân": ["Noordoost-Friesland"],
+  Leeuwarden: ["Ljouwert"],
+};
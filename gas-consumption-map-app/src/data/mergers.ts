@@ -0,0 +1,106 @@
+import type { MunicipalMerger } from "../types";
+
+// Municipal reorganisations (gemeentelijke herindelingen) since the start of
+// CBS table 81528NED in 2010, using the region names as published by CBS.
+// A successor that continues under its own name lists itself as a predecessor.
+export const MUNICIPAL_MERGERS: MunicipalMerger[] = [
+  { successor: "Rotterdam", predecessors: ["Rotterdam", "Rozenburg"], effectiveDate: "2010-03-18" },
+  { successor: "Bodegraven-Reeuwijk", predecessors: ["Bodegraven", "Reeuwijk"], effectiveDate: "2011-01-01" },
+  { successor: "De Ronde Venen", predecessors: ["De Ronde Venen", "Abcoude"], effectiveDate: "2011-01-01" },
+  { successor: "Eijsden-Margraten", predecessors: ["Eijsden", "Margraten"], effectiveDate: "2011-01-01" },
+  { successor: "Medemblik", predecessors: ["Medemblik", "Andijk", "Wervershoof"], effectiveDate: "2011-01-01" },
+  { successor: "Menameradiel", predecessors: ["Menaldumadeel"], effectiveDate: "2011-01-01" },
+  { successor: "Oss", predecessors: ["Oss", "Lith"], effectiveDate: "2011-01-01" },
+  { successor: "Stichtse Vecht", predecessors: ["Breukelen", "Loenen", "Maarssen"], effectiveDate: "2011-01-01" },
+  {
+    successor: "Súdwest-Fryslân",
+    predecessors: ["Bolsward", "Nijefurd", "Sneek", "Wûnseradiel", "Wymbritseradiel"],
+    effectiveDate: "2011-01-01",
+  },
+  {
+    successor: "Hollands Kroon",
+    predecessors: ["Anna Paulowna", "Niedorp", "Wieringen", "Wieringermeer"],
+    effectiveDate: "2012-01-01",
+  },
+  {
+    successor: "Goeree-Overflakkee",
+    predecessors: ["Dirksland", "Goedereede", "Middelharnis", "Oostflakkee"],
+    effectiveDate: "2013-01-01",
+  },
+  { successor: "Molenwaard", predecessors: ["Graafstroom", "Liesveld", "Nieuw-Lekkerland"], effectiveDate: "2013-01-01" },
+  { successor: "Schagen", predecessors: ["Schagen", "Harenkarspel", "Zijpe"], effectiveDate: "2013-01-01" },
+  { successor: "Alphen aan den Rijn", predecessors: ["Alphen aan den Rijn", "Boskoop", "Rijnwoude"], effectiveDate: "2014-01-01" },
+  {
+    successor: "De Friese Meren",
+    predecessors: ["Gaasterlân-Sleat", "Lemsterland", "Skarsterlân", "Boarnsterhim"],
+    partial: ["Boarnsterhim"],
+    effectiveDate: "2014-01-01",
+  },
+  { successor: "Heerenveen", predecessors: ["Heerenveen", "Boarnsterhim"], partial: ["Boarnsterhim"], effectiveDate: "2014-01-01" },
+  { successor: "Leeuwarden", predecessors: ["Leeuwarden", "Boarnsterhim"], partial: ["Boarnsterhim"], effectiveDate: "2014-01-01" },
+  { successor: "Alkmaar", predecessors: ["Alkmaar", "Graft-De Rijp", "Schermer"], effectiveDate: "2015-01-01" },
+  { successor: "Groesbeek", predecessors: ["Groesbeek", "Millingen aan de Rijn", "Ubbergen"], effectiveDate: "2015-01-01" },
+  {
+    successor: "Krimpenerwaard",
+    predecessors: ["Bergambacht", "Nederlek", "Ouderkerk", "Schoonhoven", "Vlist"],
+    effectiveDate: "2015-01-01",
+  },
+  { successor: "Nissewaard", predecessors: ["Bernisse", "Spijkenisse"], effectiveDate: "2015-01-01" },
+  { successor: "Oss", predecessors: ["Oss", "Maasdonk"], partial: ["Maasdonk"], effectiveDate: "2015-01-01" },
+  { successor: "'s-Hertogenbosch", predecessors: ["'s-Hertogenbosch", "Maasdonk"], partial: ["Maasdonk"], effectiveDate: "2015-01-01" },
+  { successor: "Berg en Dal", predecessors: ["Groesbeek"], effectiveDate: "2016-01-01" },
+  { successor: "De Fryske Marren", predecessors: ["De Friese Meren"], effectiveDate: "2016-01-01" },
+  { successor: "Edam-Volendam", predecessors: ["Edam-Volendam", "Zeevang"], effectiveDate: "2016-01-01" },
+  { successor: "Gooise Meren", predecessors: ["Bussum", "Muiden", "Naarden"], effectiveDate: "2016-01-01" },
+  { successor: "Meierijstad", predecessors: ["Schijndel", "Sint-Oedenrode", "Veghel"], effectiveDate: "2017-01-01" },
+  { successor: "Leeuwarden", predecessors: ["Leeuwarden", "Leeuwarderadeel", "Littenseradiel"], partial: ["Littenseradiel"], effectiveDate: "2018-01-01" },
+  { successor: "Midden-Groningen", predecessors: ["Hoogezand-Sappemeer", "Menterwolde", "Slochteren"], effectiveDate: "2018-01-01" },
+  { successor: "Súdwest-Fryslân", predecessors: ["Súdwest-Fryslân", "Littenseradiel"], partial: ["Littenseradiel"], effectiveDate: "2018-01-01" },
+  {
+    successor: "Waadhoeke",
+    predecessors: ["Franekeradeel", "het Bildt", "Littenseradiel", "Menameradiel"],
+    partial: ["Littenseradiel"],
+    effectiveDate: "2018-01-01",
+  },
+  { successor: "Westerwolde", predecessors: ["Bellingwedde", "Vlagtwedde"], effectiveDate: "2018-01-01" },
+  { successor: "Zevenaar", predecessors: ["Zevenaar", "Rijnwaarden"], effectiveDate: "2018-01-01" },
+  { successor: "Altena", predecessors: ["Aalburg", "Werkendam", "Woudrichem"], effectiveDate: "2019-01-01" },
+  { successor: "Beekdaelen", predecessors: ["Nuth", "Onderbanken", "Schinnen"], effectiveDate: "2019-01-01" },
+  { successor: "Groningen (gemeente)", predecessors: ["Groningen (gemeente)", "Haren", "Ten Boer"], effectiveDate: "2019-01-01" },
+  {
+    successor: "Haarlemmermeer",
+    predecessors: ["Haarlemmermeer", "Haarlemmerliede en Spaarnwoude"],
+    effectiveDate: "2019-01-01",
+  },
+  { successor: "Het Hogeland", predecessors: ["Bedum", "De Marne", "Eemsmond", "Winsum"], effectiveDate: "2019-01-01" },
+  {
+    successor: "Hoeksche Waard",
+    predecessors: ["Binnenmaas", "Cromstrijen", "Korendijk", "Oud-Beijerland", "Strijen"],
+    effectiveDate: "2019-01-01",
+  },
+  { successor: "Molenlanden", predecessors: ["Giessenlanden", "Molenwaard"], effectiveDate: "2019-01-01" },
+  {
+    successor: "Noardeast-Fryslân",
+    predecessors: ["Dongeradeel", "Ferwerderadiel", "Kollumerland en Nieuwkruisland"],
+    effectiveDate: "2019-01-01",
+  },
+  { successor: "Noordwijk", predecessors: ["Noordwijk", "Noordwijkerhout"], effectiveDate: "2019-01-01" },
+  { successor: "Vijfheerenlanden", predecessors: ["Leerdam", "Vianen", "Zederik"], effectiveDate: "2019-01-01" },
+  { successor: "West Betuwe", predecessors: ["Geldermalsen", "Lingewaal", "Neerijnen"], effectiveDate: "2019-01-01" },
+  { successor: "Westerkwartier", predecessors: ["Grootegast", "Leek", "Marum", "Zuidhorn"], effectiveDate: "2019-01-01" },
+  { successor: "Eemsdelta", predecessors: ["Appingedam", "Delfzijl", "Loppersum"], effectiveDate: "2021-01-01" },
+  { successor: "Boxtel", predecessors: ["Boxtel", "Haaren"], partial: ["Haaren"], effectiveDate: "2021-01-01" },
+  { successor: "Oisterwijk", predecessors: ["Oisterwijk", "Haaren"], partial: ["Haaren"], effectiveDate: "2021-01-01" },
+  { successor: "Tilburg", predecessors: ["Tilburg", "Haaren"], partial: ["Haaren"], effectiveDate: "2021-01-01" },
+  { successor: "Vught", predecessors: ["Vught", "Haaren"], partial: ["Haaren"], effectiveDate: "2021-01-01" },
+  { successor: "Dijk en Waard", predecessors: ["Heerhugowaard", "Langedijk"], effectiveDate: "2022-01-01" },
+  {
+    successor: "Land van Cuijk",
+    predecessors: ["Boxmeer", "Cuijk", "Grave", "Mill en Sint Hubert", "Sint Anthonis"],
+    effectiveDate: "2022-01-01",
+  },
+  { successor: "Maashorst", predecessors: ["Landerd", "Uden"], effectiveDate: "2022-01-01" },
+  { successor: "Purmerend", predecessors: ["Purmerend", "Beemster"], effectiveDate: "2022-01-01" },
+  { successor: "Amsterdam", predecessors: ["Amsterdam", "Weesp"], effectiveDate: "2022-03-24" },
+  { successor: "Voorne aan Zee", predecessors: ["Brielle", "Hellevoetsluis", "Westvoorne"], effectiveDate: "2023-01-01" },
+];
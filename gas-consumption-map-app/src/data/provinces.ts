@@ -0,0 +1,432 @@
+import type { Landsdeel, Province } from "../types";
+
+// Provinces, their CBS landsdeel and their municipalities on 1 January 2024,
+// using the region names as published by CBS.
+export const PROVINCES: Province[] = [
+  {
+    code: "PV20",
+    name: "Groningen",
+    landsdeel: "Noord-Nederland",
+    municipalities: [
+      "Eemsdelta",
+      "Groningen (gemeente)",
+      "Het Hogeland",
+      "Midden-Groningen",
+      "Oldambt",
+      "Pekela",
+      "Stadskanaal",
+      "Veendam",
+      "Westerkwartier",
+      "Westerwolde",
+    ],
+  },
+  {
+    code: "PV21",
+    name: "Fryslân",
+    landsdeel: "Noord-Nederland",
+    municipalities: [
+      "Achtkarspelen",
+      "Ameland",
+      "Dantumadiel",
+      "De Fryske Marren",
+      "Harlingen",
+      "Heerenveen",
+      "Leeuwarden",
+      "Noardeast-Fryslân",
+      "Ooststellingwerf",
+      "Opsterland",
+      "Schiermonnikoog",
+      "Smallingerland",
+      "Súdwest-Fryslân",
+      "Terschelling",
+      "Tytsjerksteradiel",
+      "Vlieland",
+      "Waadhoeke",
+      "Weststellingwerf",
+    ],
+  },
+  {
+    code: "PV22",
+    name: "Drenthe",
+    landsdeel: "Noord-Nederland",
+    municipalities: [
+      "Aa en Hunze",
+      "Assen",
+      "Borger-Odoorn",
+      "Coevorden",
+      "De Wolden",
+      "Emmen",
+      "Hoogeveen",
+      "Meppel",
+      "Midden-Drenthe",
+      "Noordenveld",
+      "Tynaarlo",
+      "Westerveld",
+    ],
+  },
+  {
+    code: "PV23",
+    name: "Overijssel",
+    landsdeel: "Oost-Nederland",
+    municipalities: [
+      "Almelo",
+      "Borne",
+      "Dalfsen",
+      "Deventer",
+      "Dinkelland",
+      "Enschede",
+      "Haaksbergen",
+      "Hardenberg",
+      "Hellendoorn",
+      "Hengelo (O.)",
+      "Hof van Twente",
+      "Kampen",
+      "Losser",
+      "Oldenzaal",
+      "Olst-Wijhe",
+      "Ommen",
+      "Raalte",
+      "Rijssen-Holten",
+      "Staphorst",
+      "Steenwijkerland",
+      "Tubbergen",
+      "Twenterand",
+      "Wierden",
+      "Zwartewaterland",
+      "Zwolle",
+    ],
+  },
+  {
+    code: "PV24",
+    name: "Flevoland",
+    landsdeel: "Oost-Nederland",
+    municipalities: ["Almere", "Dronten", "Lelystad", "Noordoostpolder", "Urk", "Zeewolde"],
+  },
+  {
+    code: "PV25",
+    name: "Gelderland",
+    landsdeel: "Oost-Nederland",
+    municipalities: [
+      "Aalten",
+      "Apeldoorn",
+      "Arnhem",
+      "Barneveld",
+      "Berg en Dal",
+      "Berkelland",
+      "Beuningen",
+      "Bronckhorst",
+      "Brummen",
+      "Buren",
+      "Culemborg",
+      "Doesburg",
+      "Doetinchem",
+      "Druten",
+      "Duiven",
+      "Ede",
+      "Elburg",
+      "Epe",
+      "Ermelo",
+      "Harderwijk",
+      "Hattem",
+      "Heerde",
+      "Heumen",
+      "Lingewaard",
+      "Lochem",
+      "Maasdriel",
+      "Montferland",
+      "Neder-Betuwe",
+      "Nijkerk",
+      "Nijmegen",
+      "Nunspeet",
+      "Oldebroek",
+      "Oost Gelre",
+      "Oude IJsselstreek",
+      "Overbetuwe",
+      "Putten",
+      "Renkum",
+      "Rheden",
+      "Rozendaal",
+      "Scherpenzeel",
+      "Tiel",
+      "Voorst",
+      "Wageningen",
+      "West Betuwe",
+      "West Maas en Waal",
+      "Westervoort",
+      "Wijchen",
+      "Winterswijk",
+      "Zaltbommel",
+      "Zevenaar",
+      "Zutphen",
+    ],
+  },
+  {
+    code: "PV26",
+    name: "Utrecht",
+    landsdeel: "West-Nederland",
+    municipalities: [
+      "Amersfoort",
+      "Baarn",
+      "Bunnik",
+      "Bunschoten",
+      "De Bilt",
+      "De Ronde Venen",
+      "Eemnes",
+      "Houten",
+      "IJsselstein",
+      "Leusden",
+      "Lopik",
+      "Montfoort",
+      "Nieuwegein",
+      "Oudewater",
+      "Renswoude",
+      "Rhenen",
+      "Soest",
+      "Stichtse Vecht",
+      "Utrecht (gemeente)",
+      "Utrechtse Heuvelrug",
+      "Veenendaal",
+      "Vijfheerenlanden",
+      "Wijk bij Duurstede",
+      "Woerden",
+      "Woudenberg",
+      "Zeist",
+    ],
+  },
+  {
+    code: "PV27",
+    name: "Noord-Holland",
+    landsdeel: "West-Nederland",
+    municipalities: [
+      "Aalsmeer",
+      "Alkmaar",
+      "Amstelveen",
+      "Amsterdam",
+      "Bergen (NH.)",
+      "Beverwijk",
+      "Blaricum",
+      "Bloemendaal",
+      "Castricum",
+      "Den Helder",
+      "Diemen",
+      "Dijk en Waard",
+      "Drechterland",
+      "Edam-Volendam",
+      "Enkhuizen",
+      "Gooise Meren",
+      "Haarlem",
+      "Haarlemmermeer",
+      "Heemskerk",
+      "Heemstede",
+      "Heiloo",
+      "Hilversum",
+      "Hollands Kroon",
+      "Hoorn",
+      "Huizen",
+      "Koggenland",
+      "Landsmeer",
+      "Laren (NH.)",
+      "Medemblik",
+      "Oostzaan",
+      "Opmeer",
+      "Ouder-Amstel",
+      "Purmerend",
+      "Schagen",
+      "Stede Broec",
+      "Texel",
+      "Uitgeest",
+      "Uithoorn",
+      "Velsen",
+      "Waterland",
+      "Wijdemeren",
+      "Wormerland",
+      "Zaanstad",
+      "Zandvoort",
+    ],
+  },
+  {
+    code: "PV28",
+    name: "Zuid-Holland",
+    landsdeel: "West-Nederland",
+    municipalities: [
+      "'s-Gravenhage (gemeente)",
+      "Alblasserdam",
+      "Albrandswaard",
+      "Alphen aan den Rijn",
+      "Barendrecht",
+      "Bodegraven-Reeuwijk",
+      "Capelle aan den IJssel",
+      "Delft",
+      "Dordrecht",
+      "Goeree-Overflakkee",
+      "Gorinchem",
+      "Gouda",
+      "Hardinxveld-Giessendam",
+      "Hendrik-Ido-Ambacht",
+      "Hillegom",
+      "Hoeksche Waard",
+      "Kaag en Braassem",
+      "Katwijk",
+      "Krimpen aan den IJssel",
+      "Krimpenerwaard",
+      "Lansingerland",
+      "Leiden",
+      "Leiderdorp",
+      "Leidschendam-Voorburg",
+      "Lisse",
+      "Maassluis",
+      "Midden-Delfland",
+      "Molenlanden",
+      "Nieuwkoop",
+      "Nissewaard",
+      "Noordwijk",
+      "Oegstgeest",
+      "Papendrecht",
+      "Pijnacker-Nootdorp",
+      "Ridderkerk",
+      "Rijswijk (ZH.)",
+      "Rotterdam",
+      "Schiedam",
+      "Sliedrecht",
+      "Teylingen",
+      "Vlaardingen",
+      "Voorne aan Zee",
+      "Voorschoten",
+      "Waddinxveen",
+      "Wassenaar",
+      "Westland",
+      "Zoetermeer",
+      "Zoeterwoude",
+      "Zuidplas",
+      "Zwijndrecht",
+    ],
+  },
+  {
+    code: "PV29",
+    name: "Zeeland",
+    landsdeel: "West-Nederland",
+    municipalities: [
+      "Borsele",
+      "Goes",
+      "Hulst",
+      "Kapelle",
+      "Middelburg (Z.)",
+      "Noord-Beveland",
+      "Reimerswaal",
+      "Schouwen-Duiveland",
+      "Sluis",
+      "Terneuzen",
+      "Tholen",
+      "Veere",
+      "Vlissingen",
+    ],
+  },
+  {
+    code: "PV30",
+    name: "Noord-Brabant",
+    landsdeel: "Zuid-Nederland",
+    municipalities: [
+      "'s-Hertogenbosch",
+      "Alphen-Chaam",
+      "Altena",
+      "Asten",
+      "Baarle-Nassau",
+      "Bergeijk",
+      "Bergen op Zoom",
+      "Bernheze",
+      "Best",
+      "Bladel",
+      "Boekel",
+      "Boxtel",
+      "Breda",
+      "Cranendonck",
+      "Deurne",
+      "Dongen",
+      "Drimmelen",
+      "Eersel",
+      "Eindhoven",
+      "Etten-Leur",
+      "Geertruidenberg",
+      "Geldrop-Mierlo",
+      "Gemert-Bakel",
+      "Gilze en Rijen",
+      "Goirle",
+      "Halderberge",
+      "Heeze-Leende",
+      "Helmond",
+      "Heusden",
+      "Hilvarenbeek",
+      "Laarbeek",
+      "Land van Cuijk",
+      "Loon op Zand",
+      "Maashorst",
+      "Meierijstad",
+      "Moerdijk",
+      "Nuenen, Gerwen en Nederwetten",
+      "Oirschot",
+      "Oisterwijk",
+      "Oosterhout",
+      "Oss",
+      "Reusel-De Mierden",
+      "Roosendaal",
+      "Rucphen",
+      "Sint-Michielsgestel",
+      "Someren",
+      "Son en Breugel",
+      "Steenbergen",
+      "Tilburg",
+      "Valkenswaard",
+      "Veldhoven",
+      "Vught",
+      "Waalre",
+      "Waalwijk",
+      "Woensdrecht",
+      "Zundert",
+    ],
+  },
+  {
+    code: "PV31",
+    name: "Limburg",
+    landsdeel: "Zuid-Nederland",
+    municipalities: [
+      "Beek (L.)",
+      "Beekdaelen",
+      "Beesel",
+      "Bergen (L.)",
+      "Brunssum",
+      "Echt-Susteren",
+      "Eijsden-Margraten",
+      "Gennep",
+      "Gulpen-Wittem",
+      "Heerlen",
+      "Horst aan de Maas",
+      "Kerkrade",
+      "Landgraaf",
+      "Leudal",
+      "Maasgouw",
+      "Maastricht",
+      "Meerssen",
+      "Mook en Middelaar",
+      "Nederweert",
+      "Peel en Maas",
+      "Roerdalen",
+      "Roermond",
+      "Simpelveld",
+      "Sittard-Geleen",
+      "Stein (L.)",
+      "Vaals",
+      "Valkenburg aan de Geul",
+      "Venlo",
+      "Venray",
+      "Voerendaal",
+      "Weert",
+    ],
+  },
+];
+
+export const LANDSDELEN: { code: string; name: Landsdeel }[] = [
+  { code: "LD01", name: "Noord-Nederland" },
+  { code: "LD02", name: "Oost-Nederland" },
+  { code: "LD03", name: "West-Nederland" },
+  { code: "LD04", name: "Zuid-Nederland" },
+];
@@ -0,0 +1,457 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { MapContainer, GeoJSON, useMap } from "react-leaflet";
+import { geoJSON } from "leaflet";
+import type { Feature } from "geojson";
+import { Home, Map, X } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { HousingTypeSelector } from "@/components/HousingTypeSelector";
+import { MetricSelector } from "@/components/MetricSelector";
+import { AverageMethodToggle } from "@/components/AverageMethodToggle";
+import { LoadError } from "@/components/LoadError";
+import { Basemap } from "@/components/Basemap";
+import { useData } from "@/context/DataContext";
+import {
+  DEFAULT_HOUSING_TYPE,
+  DEFAULT_METRIC,
+  getMetricDefinition,
+  getMunicipalityPath,
+} from "@/utils/dataUtils";
+import {
+  COMPARE_COLORS,
+  MAX_COMPARED,
+  getCompareParam,
+  parseCompareParam,
+  storeComparison,
+} from "@/utils/compareUtils";
+import { getStatcodeByMunicipality, isDissolved } from "@/utils/lineageUtils";
+import { describeAverageSources } from "@/utils/averageUtils";
+import type { IndexedRecord } from "@/utils/indexUtils";
+import type { HousingType, Metric } from "@/types";
+import "leaflet/dist/leaflet.css";
+
+interface ComparedSeries {
+  municipality: string;
+  statcode: string | null;
+  color: string;
+  records: IndexedRecord[];
+}
+
+// Zooms the mini-map to the compared municipalities.
+function FitToFeatures({ features }: { features: Feature[] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (features.length === 0) return;
+    map.fitBounds(geoJSON(features).getBounds(), { padding: [20, 20] });
+  }, [map, features]);
+
+  return null;
+}
+
+function formatSigned(value: number, decimals: number): string {
+  const formatted = value.toLocaleString(undefined, { maximumFractionDigits: decimals });
+  return value > 0 ? `+${formatted}` : formatted;
+}
+
+export function Compare() {
+  const { data, geoData, error, retry, getIndex } = useData();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [housingType, setHousingType] = useState<HousingType>(DEFAULT_HOUSING_TYPE);
+  const [metric, setMetric] = useState<Metric>(DEFAULT_METRIC);
+  const metricDefinition = getMetricDefinition(metric);
+
+  const { municipalities, unknown } = useMemo(
+    () =>
+      data ? parseCompareParam(data, searchParams.get("m")) : { municipalities: [], unknown: [] },
+    [data, searchParams]
+  );
+
+  // Remember the comparison so add-to-compare buttons elsewhere extend it
+  useEffect(() => {
+    if (data) storeComparison(municipalities);
+  }, [data, municipalities]);
+
+  const setMunicipalities = (names: string[]) => {
+    setSearchParams({ m: getCompareParam(names) });
+  };
+
+  const statcodes = useMemo(() => getStatcodeByMunicipality(data?.data ?? []), [data]);
+
+  const allMunicipalities = useMemo(
+    () =>
+      [...statcodes.keys()]
+        .filter((name) => !isDissolved(name))
+        .sort((a, b) => a.localeCompare(b)),
+    [statcodes]
+  );
+
+  // Values as reported, so ranks are among the municipalities of each year
+  const series: ComparedSeries[] = useMemo(
+    () =>
+      municipalities.map((municipality, i) => {
+        const index = getIndex(housingType, metric);
+        return {
+          municipality,
+          statcode: statcodes.get(municipality) ?? null,
+          color: COMPARE_COLORS[i],
+          records: index?.byMunicipality.get(municipality) ?? [],
+        };
+      }),
+    [municipalities, statcodes, getIndex, housingType, metric]
+  );
+
+  const nationalIndex = useMemo(
+    () => getIndex(housingType, metric),
+    [getIndex, housingType, metric]
+  );
+
+  const years = useMemo(
+    () =>
+      [...new Set(series.flatMap((s) => s.records.map((r) => r.year)))].sort((a, b) => a - b),
+    [series]
+  );
+
+  // One row per year with a value and rank column per municipality
+  const chartData = useMemo(
+    () =>
+      years.map((year) => {
+        const row: Record<string, number | null> = {
+          year,
+          nationalAverage: nationalIndex?.nationalAverages.get(year) ?? null,
+        };
+        for (const { municipality, records } of series) {
+          const record = records.find((r) => r.year === year);
+          row[`value:${municipality}`] = record?.value ?? null;
+          row[`rank:${municipality}`] = record?.rank ?? null;
+        }
+        return row;
+      }),
+    [years, series, nationalIndex]
+  );
+
+  const colorByStatcode: Record<string, string> = useMemo(
+    () =>
+      Object.fromEntries(
+        series.filter((s) => s.statcode !== null).map((s) => [s.statcode, s.color])
+      ),
+    [series]
+  );
+
+  const comparedFeatures = useMemo(
+    () => geoData?.features.filter((f) => f.properties?.statcode in colorByStatcode) ?? [],
+    [geoData, colorByStatcode]
+  );
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-screen p-6">
+        <LoadError error={error} onRetry={retry} />
+      </div>
+    );
+  }
+
+  if (!data) {
+    return <div className="flex items-center justify-center h-screen">Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <header className="bg-slate-800 text-white px-4 py-3">
+        <div className="max-w-6xl mx-auto flex items-center gap-4">
+          <nav className="flex items-center gap-3">
+            <Link
+              to="/"
+              className="flex items-center gap-1.5 text-slate-300 hover:text-white transition-colors"
+            >
+              <Home className="w-4 h-4" />
+              <span className="text-sm">Home</span>
+            </Link>
+            <span className="text-slate-500">/</span>
+            <Link
+              to="/map"
+              className="flex items-center gap-1.5 text-slate-300 hover:text-white transition-colors"
+            >
+              <Map className="w-4 h-4" />
+              <span className="text-sm">Map</span>
+            </Link>
+          </nav>
+          <span className="text-slate-500">/</span>
+          <h1 className="text-lg font-medium">Compare municipalities</h1>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-6 space-y-6">
+        <div className="flex flex-wrap items-center gap-2">
+          {series.map(({ municipality, statcode, color }) => (
+            <span
+              key={municipality}
+              className="inline-flex items-center gap-1.5 rounded-full bg-white border px-3 py-1 text-sm"
+            >
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: color }} />
+              <Link to={getMunicipalityPath(municipality, statcode)} className="hover:underline">
+                {municipality}
+              </Link>
+              <button
+                onClick={() => setMunicipalities(municipalities.filter((m) => m !== municipality))}
+                aria-label={`Remove ${municipality}`}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          ))}
+          {municipalities.length < MAX_COMPARED && (
+            <Select
+              value=""
+              onValueChange={(name) => setMunicipalities([...municipalities, name])}
+            >
+              <SelectTrigger className="w-56 bg-white">
+                <SelectValue placeholder="Add municipality…" />
+              </SelectTrigger>
+              <SelectContent>
+                {allMunicipalities
+                  .filter((name) => !municipalities.includes(name))
+                  .map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          )}
+          <div className="ml-auto flex flex-wrap gap-2">
+            <MetricSelector selectedMetric={metric} onChange={setMetric} />
+            <HousingTypeSelector selectedHousingType={housingType} onChange={setHousingType} />
+            <AverageMethodToggle index={nationalIndex} />
+          </div>
+        </div>
+
+        {unknown.length > 0 && (
+          <p className="text-sm text-amber-700">
+            Not found: {unknown.join(", ")}
+          </p>
+        )}
+
+        {municipalities.length === 0 ? (
+          <Card>
+            <CardContent>
+              <p className="text-muted-foreground">
+                Add up to {MAX_COMPARED} municipalities above, or use "Add to compare" on the map or
+                a municipality page.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid md:grid-cols-3 gap-6">
+              <Card className="md:col-span-2">
+                <CardHeader>
+                  <CardTitle>
+                    {metricDefinition.label} ({metricDefinition.unitLabel})
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="h-72">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={chartData}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="year" />
+                        <YAxis
+                          domain={[
+                            `dataMin - ${metricDefinition.axisPadding}`,
+                            `dataMax + ${metricDefinition.axisPadding}`,
+                          ]}
+                        />
+                        <Tooltip
+                          formatter={(value) =>
+                            `${Number(value).toLocaleString()} ${metricDefinition.unit}`
+                          }
+                        />
+                        <Legend />
+                        {series.map(({ municipality, color }) => (
+                          <Line
+                            key={municipality}
+                            type="monotone"
+                            dataKey={`value:${municipality}`}
+                            name={municipality}
+                            stroke={color}
+                            strokeWidth={2}
+                            dot={{ fill: color, r: 3 }}
+                            connectNulls
+                          />
+                        ))}
+                        <Line
+                          type="monotone"
+                          dataKey="nationalAverage"
+                          name="National Average"
+                          stroke="#6b7280"
+                          strokeWidth={2}
+                          strokeDasharray="5 5"
+                          dot={false}
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                  {nationalIndex && (
+                    <p className="mt-2 text-xs text-muted-foreground">
+                      National average: {describeAverageSources(nationalIndex.averageSources)}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Location</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="h-72 rounded-lg overflow-hidden">
+                    {geoData && (
+                      <MapContainer
+                        center={[52.2, 5.5]}
+                        zoom={7}
+                        scrollWheelZoom={false}
+                        zoomControl={false}
+                        style={{ height: "100%", width: "100%" }}
+                      >
+                        <Basemap />
+                        <GeoJSON
+                          data={geoData}
+                          style={(feature) => {
+                            const color = colorByStatcode[feature?.properties?.statcode];
+                            return color
+                              ? { fillColor: color, fillOpacity: 0.6, color, weight: 2 }
+                              : { fillOpacity: 0, color: "#cbd5e1", weight: 0.5 };
+                          }}
+                        />
+                        <FitToFeatures features={comparedFeatures} />
+                      </MapContainer>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Ranking Over Time (1 = lowest)</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="h-56">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="year" />
+                      <YAxis reversed domain={[1, "dataMax"]} allowDecimals={false} />
+                      <Tooltip formatter={(value) => `#${value}`} />
+                      <Legend />
+                      {series.map(({ municipality, color }) => (
+                        <Line
+                          key={municipality}
+                          type="monotone"
+                          dataKey={`rank:${municipality}`}
+                          name={municipality}
+                          stroke={color}
+                          strokeWidth={2}
+                          dot={{ fill: color, r: 3 }}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Change per Year</CardTitle>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="py-2 pr-4 font-medium">Year</th>
+                      {series.map(({ municipality, color }) => (
+                        <th key={municipality} className="py-2 pr-4 font-medium">
+                          <span className="inline-flex items-center gap-1.5">
+                            <span
+                              className="w-2.5 h-2.5 rounded-full"
+                              style={{ backgroundColor: color }}
+                            />
+                            {municipality}
+                          </span>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {years.map((year) => (
+                      <tr key={year} className="border-t">
+                        <td className="py-2 pr-4 font-medium">{year}</td>
+                        {series.map(({ municipality, records }) => {
+                          const record = records.find((r) => r.year === year);
+                          const previous = records.find((r) => r.year === year - 1);
+                          if (!record) {
+                            return (
+                              <td key={municipality} className="py-2 pr-4 text-muted-foreground">
+                                –
+                              </td>
+                            );
+                          }
+
+                          const change = previous ? record.value - previous.value : null;
+                          return (
+                            <td key={municipality} className="py-2 pr-4">
+                              <div>
+                                {record.value.toLocaleString()} {metricDefinition.unit}
+                              </div>
+                              {change !== null && (
+                                <div
+                                  className={`text-xs ${
+                                    change < 0
+                                      ? "text-green-600"
+                                      : change > 0
+                                        ? "text-red-600"
+                                        : "text-muted-foreground"
+                                  }`}
+                                >
+                                  {formatSigned(change, 1)} ·{" "}
+                                  {previous!.value
+                                    ? `${formatSigned((change / previous!.value) * 100, 1)}%`
+                                    : "–"}
+                                </div>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState, useMemo, type ReactNode } from "react";
+import { Link } from "react-router-dom";
+import { Home, Map } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { YearSelector } from "@/components/YearSelector";
+import { HousingTypeSelector } from "@/components/HousingTypeSelector";
+import { MetricSelector } from "@/components/MetricSelector";
+import { LoadError } from "@/components/LoadError";
+import { useData } from "@/context/DataContext";
+import {
+  getAvailableYears,
+  getFeaturesWithoutRecords,
+  getRecordsWithoutGeometry,
+  getMissingYears,
+  getImputedRecords,
+  getYearOverYearOutliers,
+  getMetricDefinition,
+  getMunicipalityPath,
+  DEFAULT_HOUSING_TYPE,
+  DEFAULT_METRIC,
+} from "@/utils/dataUtils";
+import type { HousingType, Metric } from "@/types";
+
+const DEFAULT_OUTLIER_THRESHOLD = 25;
+
+function MunicipalityLink({ name, statcode }: { name: string; statcode: string | null }) {
+  return (
+    <Link to={getMunicipalityPath(name, statcode)} className="text-blue-600 hover:underline">
+      {name}
+    </Link>
+  );
+}
+
+function IssueCard({
+  title,
+  count,
+  children,
+}: {
+  title: string;
+  count: number;
+  children: ReactNode;
+}) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm">
+          {title} <span className="text-muted-foreground font-normal">({count})</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {count === 0 ? (
+          <p className="text-sm text-muted-foreground">None</p>
+        ) : (
+          <ul className="text-sm space-y-1 max-h-64 overflow-y-auto">{children}</ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function DataQuality() {
+  const { data, geoData, error, retry } = useData();
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const [housingType, setHousingType] = useState<HousingType>(DEFAULT_HOUSING_TYPE);
+  const [metric, setMetric] = useState<Metric>(DEFAULT_METRIC);
+  const [threshold, setThreshold] = useState(DEFAULT_OUTLIER_THRESHOLD);
+  const metricDefinition = getMetricDefinition(metric);
+
+  const years = useMemo(() => (data ? getAvailableYears(data) : []), [data]);
+  const year = selectedYear ?? years[0];
+
+  const missingYears = useMemo(() => {
+    if (!data) return [];
+    return getMissingYears(data, housingType);
+  }, [data, housingType]);
+
+  const summary = useMemo(() => {
+    if (!data || !geoData) return [];
+    return years.map((y) => ({
+      year: y,
+      featuresWithoutRecords: getFeaturesWithoutRecords(data, geoData, y, housingType).length,
+      recordsWithoutGeometry: getRecordsWithoutGeometry(data, geoData, y, housingType).length,
+      missing: missingYears.filter((m) => m.years.includes(y)).length,
+      imputed: getImputedRecords(data, y, housingType).length,
+      outliers: getYearOverYearOutliers(data, y, threshold, housingType, metric).length,
+    }));
+  }, [data, geoData, years, housingType, metric, threshold, missingYears]);
+
+  const details = useMemo(() => {
+    if (!data || !geoData || year === undefined) return null;
+    return {
+      featuresWithoutRecords: getFeaturesWithoutRecords(data, geoData, year, housingType),
+      recordsWithoutGeometry: getRecordsWithoutGeometry(data, geoData, year, housingType),
+      missing: missingYears.filter((m) => m.years.includes(year)),
+      imputed: getImputedRecords(data, year, housingType),
+      outliers: getYearOverYearOutliers(data, year, threshold, housingType, metric),
+    };
+  }, [data, geoData, year, housingType, metric, threshold, missingYears]);
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-screen p-6">
+        <LoadError error={error} onRetry={retry} />
+      </div>
+    );
+  }
+
+  if (!data || !geoData || !details) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <header className="bg-slate-800 text-white px-4 py-3">
+        <div className="max-w-6xl mx-auto flex items-center gap-4">
+          <nav className="flex items-center gap-3">
+            <Link
+              to="/"
+              className="flex items-center gap-1.5 text-slate-300 hover:text-white transition-colors"
+            >
+              <Home className="w-4 h-4" />
+              <span className="text-sm">Home</span>
+            </Link>
+            <span className="text-slate-500">/</span>
+            <Link
+              to="/map"
+              className="flex items-center gap-1.5 text-slate-300 hover:text-white transition-colors"
+            >
+              <Map className="w-4 h-4" />
+              <span className="text-sm">Map</span>
+            </Link>
+          </nav>
+          <span className="text-slate-500">/</span>
+          <h1 className="text-lg font-medium">Data Quality</h1>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-6 space-y-6">
+        <div className="flex flex-wrap justify-end gap-2">
+          <YearSelector years={years} selectedYear={year} onChange={setSelectedYear} />
+          <MetricSelector selectedMetric={metric} onChange={setMetric} />
+          <HousingTypeSelector
+            selectedHousingType={housingType}
+            onChange={setHousingType}
+          />
+          <Card className="p-3 gap-2">
+            <div className="flex items-center gap-2">
+              <label htmlFor="outlier-threshold" className="text-sm font-medium">
+                Outlier threshold (%)
+              </label>
+              <input
+                id="outlier-threshold"
+                type="number"
+                min={1}
+                value={threshold}
+                onChange={(e) => setThreshold(Number(e.target.value) || DEFAULT_OUTLIER_THRESHOLD)}
+                className="w-20 rounded border border-slate-200 px-2 py-1 text-sm"
+              />
+            </div>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Issues per Year</CardTitle>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Year</th>
+                  <th className="py-2 pr-4 font-medium">Features without data</th>
+                  <th className="py-2 pr-4 font-medium">Records without geometry</th>
+                  <th className="py-2 pr-4 font-medium">Missing municipalities</th>
+                  <th className="py-2 pr-4 font-medium">Imputed records</th>
+                  <th className="py-2 font-medium">Outliers</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.map((row) => (
+                  <tr
+                    key={row.year}
+                    onClick={() => setSelectedYear(row.year)}
+                    className={`border-b last:border-0 cursor-pointer hover:bg-slate-50 ${
+                      row.year === year ? "bg-slate-100 font-medium" : ""
+                    }`}
+                  >
+                    <td className="py-2 pr-4">{row.year}</td>
+                    <td className="py-2 pr-4">{row.featuresWithoutRecords}</td>
+                    <td className="py-2 pr-4">{row.recordsWithoutGeometry}</td>
+                    <td className="py-2 pr-4">{row.missing}</td>
+                    <td className="py-2 pr-4">{row.imputed}</td>
+                    <td className="py-2">{row.outliers}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <IssueCard
+            title={`Map features without data in ${year}`}
+            count={details.featuresWithoutRecords.length}
+          >
+            {details.featuresWithoutRecords.map((f) => (
+              <li key={f.statcode}>
+                {f.statnaam} <span className="text-muted-foreground">{f.statcode}</span>
+              </li>
+            ))}
+          </IssueCard>
+
+          <IssueCard
+            title={`Records without geometry in ${year}`}
+            count={details.recordsWithoutGeometry.length}
+          >
+            {details.recordsWithoutGeometry.map((r) => (
+              <li key={r.municipality}>
+                <MunicipalityLink name={r.municipality} statcode={r.statcode} />
+              </li>
+            ))}
+          </IssueCard>
+
+          <IssueCard
+            title={`Municipalities missing ${year}`}
+            count={details.missing.length}
+          >
+            {details.missing.map((m) => (
+              <li key={m.municipality}>
+                <MunicipalityLink name={m.municipality} statcode={m.statcode} />{" "}
+                <span className="text-muted-foreground">missing {m.years.join(", ")}</span>
+              </li>
+            ))}
+          </IssueCard>
+
+          <IssueCard
+            title={`Imputed by predecessor averaging in ${year}`}
+            count={details.imputed.length}
+          >
+            {details.imputed.map((r) => (
+              <li key={r.municipality}>
+                <MunicipalityLink name={r.municipality} statcode={r.statcode} />{" "}
+                <span className="text-muted-foreground">
+                  mean of {r.imputed_from!.join(", ")}
+                </span>
+              </li>
+            ))}
+          </IssueCard>
+        </div>
+
+        <IssueCard
+          title={`${metricDefinition.label} changes beyond ±${threshold}% from ${year - 1} to ${year}`}
+          count={details.outliers.length}
+        >
+          {details.outliers.map(({ record, previousValue, value, changePercent }) => (
+            <li key={record.municipality} className="flex justify-between gap-4">
+              <MunicipalityLink name={record.municipality} statcode={record.statcode} />
+              <span className="text-muted-foreground">
+                {previousValue.toLocaleString()} → {value.toLocaleString()} {metricDefinition.unit}{" "}
+                <span className={changePercent > 0 ? "text-red-600" : "text-green-600"}>
+                  ({changePercent > 0 ? "+" : ""}
+                  {changePercent.toFixed(1)}%)
+                </span>
+              </span>
+            </li>
+          ))}
+        </IssueCard>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,380 @@
+import { useCallback, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Home, Map } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { YearSelector } from "@/components/YearSelector";
+import { HousingTypeSelector } from "@/components/HousingTypeSelector";
+import { ExploreScatter } from "@/components/ExploreScatter";
+import { ScatterMiniMap } from "@/components/ScatterMiniMap";
+import { LoadError } from "@/components/LoadError";
+import { useData } from "@/context/DataContext";
+import {
+  getHousingTypeLabel,
+  getMetricDefinition,
+  getMunicipalityPath,
+  DEFAULT_HOUSING_TYPE,
+  HOUSING_TYPES,
+  METRICS,
+} from "@/utils/dataUtils";
+import {
+  getCovariateDefinition,
+  getCovariateValues,
+  getCovariateYear,
+} from "@/utils/covariateUtils";
+import {
+  findUrbanityCovariate,
+  fitOls,
+  getNiceDomain,
+  getPointsInRange,
+  getProvinceGroup,
+  getProvinceGroups,
+  getUrbanityGroup,
+  getUrbanityGroups,
+  joinScatterPoints,
+} from "@/utils/exploreUtils";
+import type { ConsumptionByMunicipality, HousingType, Metric } from "@/types";
+
+type ColorBy = "province" | "urbanity";
+
+// Select values of the x variable: a metric or an imported covariate
+const METRIC_PREFIX = "metric:";
+const COVARIATE_PREFIX = "covariate:";
+
+// Names of brushed municipalities listed below the map
+const MAX_LISTED = 30;
+
+function getMetricLabel(metric: Metric, housingType: HousingType): string {
+  const { label, unit } = getMetricDefinition(metric);
+  const type = housingType === DEFAULT_HOUSING_TYPE ? "" : `, ${getHousingTypeLabel(housingType)}`;
+  return `${label}${type} (${unit})`;
+}
+
+function formatNumber(value: number, decimals: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: decimals });
+}
+
+// Gas consumption of every municipality against another variable in one
+// year. Brushing the scatter selects municipalities on the linked map.
+export function Explore() {
+  const { error, retry, getIndex, covariates } = useData();
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const [housingType, setHousingType] = useState<HousingType>(DEFAULT_HOUSING_TYPE);
+  const [xVariable, setXVariable] = useState(`${METRIC_PREFIX}electricity_delivery`);
+  const [xHousingType, setXHousingType] = useState<HousingType>(DEFAULT_HOUSING_TYPE);
+  const [colorBy, setColorBy] = useState<ColorBy>("province");
+  const [selected, setSelected] = useState<Set<string> | null>(null);
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const index = getIndex(housingType, "gas_consumption");
+  const years = useMemo(() => (index ? [...index.years].reverse() : []), [index]);
+  const year = useMemo(
+    () => (selectedYear !== null && years.includes(selectedYear) ? selectedYear : years[0]),
+    [years, selectedYear]
+  );
+
+  // A covariate that is no longer loaded falls back to the default metric
+  const covariate = useMemo(
+    () =>
+      covariates && xVariable.startsWith(COVARIATE_PREFIX)
+        ? getCovariateDefinition(covariates, xVariable.slice(COVARIATE_PREFIX.length))
+        : undefined,
+    [covariates, xVariable]
+  );
+  const xMetric: Metric = covariate
+    ? "gas_consumption"
+    : (METRICS.find((m) => `${METRIC_PREFIX}${m.value}` === xVariable)?.value ??
+      "electricity_delivery");
+  const covariateYear =
+    covariates && covariate && year !== undefined
+      ? getCovariateYear(covariates, covariate.key, year)
+      : null;
+
+  const xValues: ConsumptionByMunicipality = useMemo(() => {
+    if (covariates && covariate) {
+      const covariateYear = getCovariateYear(covariates, covariate.key, year);
+      return covariateYear !== null
+        ? getCovariateValues(covariates, covariate.key, covariateYear)
+        : {};
+    }
+    const values: ConsumptionByMunicipality = {};
+    for (const { statcode, value } of getIndex(xHousingType, xMetric)?.byYear.get(year) ?? []) {
+      if (statcode) values[statcode] = value;
+    }
+    return values;
+  }, [covariates, covariate, getIndex, xHousingType, xMetric, year]);
+
+  const urbanityKey = findUrbanityCovariate(covariates);
+  const groupBy = colorBy === "urbanity" && urbanityKey ? "urbanity" : "province";
+  const groups = useMemo(
+    () => (groupBy === "urbanity" ? getUrbanityGroups() : getProvinceGroups()),
+    [groupBy]
+  );
+
+  const points = useMemo(() => {
+    const records = index?.byYear.get(year) ?? [];
+    if (groupBy === "province" || !covariates || !urbanityKey) {
+      return joinScatterPoints(records, xValues, getProvinceGroup);
+    }
+    const urbanityYear = getCovariateYear(covariates, urbanityKey, year);
+    const urbanity =
+      urbanityYear !== null ? getCovariateValues(covariates, urbanityKey, urbanityYear) : {};
+    return joinScatterPoints(records, xValues, getUrbanityGroup(urbanity));
+  }, [index, year, xValues, groupBy, covariates, urbanityKey]);
+
+  const colors = useMemo(() => {
+    const byGroup = Object.fromEntries(groups.map((g) => [g.value, g.color]));
+    return Object.fromEntries(points.map((p) => [p.statcode, byGroup[p.group]]));
+  }, [groups, points]);
+  const presentGroups = groups.filter((g) => points.some((p) => p.group === g.value));
+
+  const fit = useMemo(() => fitOls(points), [points]);
+  const xDomain = useMemo(() => getNiceDomain(points.map((p) => p.x)), [points]);
+  const yDomain = useMemo(() => getNiceDomain(points.map((p) => p.y)), [points]);
+
+  const onBrush = useCallback(
+    (range: { x: [number, number]; y: [number, number] } | null) =>
+      setSelected(range ? new Set(getPointsInRange(points, range.x, range.y)) : null),
+    [points]
+  );
+  const selectedPoints = selected ? points.filter((p) => selected.has(p.statcode)) : [];
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-screen p-6">
+        <LoadError error={error} onRetry={retry} />
+      </div>
+    );
+  }
+
+  if (!index || year === undefined) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  const gas = getMetricDefinition("gas_consumption");
+  const xName = covariate ? covariate.label : getMetricDefinition(xMetric).label;
+  const xAxis = covariate
+    ? {
+        label: covariate.unit ? `${covariate.label} (${covariate.unit})` : covariate.label,
+        domain: xDomain,
+        decimals: covariate.decimals,
+      }
+    : {
+        label: getMetricLabel(xMetric, xHousingType),
+        domain: xDomain,
+        decimals: getMetricDefinition(xMetric).decimals,
+      };
+  const yAxis = {
+    label: getMetricLabel("gas_consumption", housingType),
+    domain: yDomain,
+    decimals: gas.decimals,
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <header className="bg-slate-800 text-white px-4 py-3">
+        <div className="max-w-6xl mx-auto flex items-center gap-4">
+          <nav className="flex items-center gap-3">
+            <Link
+              to="/"
+              className="flex items-center gap-1.5 text-slate-300 hover:text-white transition-colors"
+            >
+              <Home className="w-4 h-4" />
+              <span className="text-sm">Home</span>
+            </Link>
+            <span className="text-slate-500">/</span>
+            <Link
+              to="/map"
+              className="flex items-center gap-1.5 text-slate-300 hover:text-white transition-colors"
+            >
+              <Map className="w-4 h-4" />
+              <span className="text-sm">Map</span>
+            </Link>
+          </nav>
+          <span className="text-slate-500">/</span>
+          <h1 className="text-lg font-medium">Explore</h1>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-6 space-y-6">
+        <div className="flex flex-wrap justify-end gap-2">
+          <YearSelector years={years} selectedYear={year} onChange={setSelectedYear} />
+          <HousingTypeSelector selectedHousingType={housingType} onChange={setHousingType} />
+          <Card className="p-3 gap-2">
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium">Against</label>
+              <Select
+                value={covariate ? xVariable : `${METRIC_PREFIX}${xMetric}`}
+                onValueChange={setXVariable}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectGroup>
+                    <SelectLabel>Metrics</SelectLabel>
+                    {METRICS.map(({ value, label }) => (
+                      <SelectItem key={value} value={`${METRIC_PREFIX}${value}`}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                  {covariates && covariates.definitions.length > 0 && (
+                    <SelectGroup>
+                      <SelectLabel>Covariates</SelectLabel>
+                      {covariates.definitions.map(({ key, label }) => (
+                        <SelectItem key={key} value={`${COVARIATE_PREFIX}${key}`}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  )}
+                </SelectContent>
+              </Select>
+              {!covariate && (
+                <Select
+                  value={xHousingType}
+                  onValueChange={(value) => setXHousingType(value as HousingType)}
+                >
+                  <SelectTrigger className="w-44" aria-label="Housing type of the x axis">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HOUSING_TYPES.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </Card>
+          <Card className="p-3 gap-2">
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium">Colour by</label>
+              <Select value={groupBy} onValueChange={(value) => setColorBy(value as ColorBy)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="province">Province</SelectItem>
+                  {urbanityKey && <SelectItem value="urbanity">Urbanity</SelectItem>}
+                </SelectContent>
+              </Select>
+            </div>
+          </Card>
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>
+                {gas.label} against {xName.toLowerCase()}, {year}{" "}
+                <span className="text-sm font-normal text-muted-foreground">
+                  {points.length} municipalities
+                  {fit &&
+                    ` · y = ${formatNumber(fit.intercept, gas.decimals)} ${
+                      fit.slope < 0 ? "−" : "+"
+                    } ${formatNumber(Math.abs(fit.slope), 3)}x · R² = ${fit.r2.toFixed(2)}`}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {points.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No municipality has a value for both variables in {year}.
+                </p>
+              ) : (
+                <div className="h-[480px]">
+                  <ExploreScatter
+                    points={points}
+                    colors={colors}
+                    x={xAxis}
+                    y={yAxis}
+                    fit={fit}
+                    selected={selected}
+                    hovered={hovered}
+                    onHover={setHovered}
+                    onBrush={onBrush}
+                  />
+                </div>
+              )}
+              <div className="mt-3 flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                {presentGroups.map(({ value, label, color }) => (
+                  <span key={value} className="inline-flex items-center gap-1">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: color }} />
+                    {label}
+                  </span>
+                ))}
+              </div>
+              <p className="mt-3 text-xs text-muted-foreground">
+                The dashed line is the least-squares fit over all points. Drag over the plot to
+                select municipalities; click to clear the selection.
+                {covariate &&
+                  covariateYear !== year &&
+                  covariateYear !== null &&
+                  ` ${covariate.label} is from ${covariateYear}, the nearest year published.`}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                Map{" "}
+                {selected && (
+                  <span className="text-sm font-normal text-muted-foreground">
+                    {selectedPoints.length} selected ·{" "}
+                    <button className="underline" onClick={() => setSelected(null)}>
+                      clear
+                    </button>
+                  </span>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="h-80 rounded-lg overflow-hidden">
+                <ScatterMiniMap
+                  colors={colors}
+                  selected={selected}
+                  hovered={hovered}
+                  onHover={setHovered}
+                />
+              </div>
+              {selectedPoints.length > 0 && (
+                <p className="mt-3 text-xs text-muted-foreground">
+                  {selectedPoints.slice(0, MAX_LISTED).map(({ statcode, municipality }, i) => (
+                    <span key={statcode}>
+                      {i > 0 && ", "}
+                      <Link
+                        to={getMunicipalityPath(municipality, statcode)}
+                        className="hover:text-slate-900 hover:underline"
+                      >
+                        {municipality}
+                      </Link>
+                    </span>
+                  ))}
+                  {selectedPoints.length > MAX_LISTED &&
+                    ` and ${selectedPoints.length - MAX_LISTED} more`}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
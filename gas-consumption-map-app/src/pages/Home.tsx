@@ -1,4 +1,4 @@
-import { useEffect, useState, useMemo } from "react";
+import { useState, useMemo } from "react";
 import { Link } from "react-router-dom";
 import { ArrowRight, BookOpen, HelpCircle, Map, SearchX } from "lucide-react";
 import {
@@ -11,44 +11,32 @@ import {
   ResponsiveContainer,
 } from "recharts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { loadGasConsumptionData } from "@/utils/dataUtils";
-import type { GasConsumptionData } from "@/types";
-
-interface YearlyAverage {
-  year: number;
-  average: number;
-}
-
-function calculateNationalAverages(data: GasConsumptionData): YearlyAverage[] {
-  const yearlyTotals: { [year: number]: { sum: number; count: number } } = {};
-
-  for (const record of data.data) {
-    if (!yearlyTotals[record.year]) {
-      yearlyTotals[record.year] = { sum: 0, count: 0 };
-    }
-    yearlyTotals[record.year].sum += record.gas_consumption;
-    yearlyTotals[record.year].count += 1;
-  }
-
-  return Object.entries(yearlyTotals)
-    .map(([year, { sum, count }]) => ({
-      year: parseInt(year),
-      average: Math.round(sum / count),
-    }))
-    .sort((a, b) => a.year - b.year);
-}
+import { HousingTypeSelector } from "@/components/HousingTypeSelector";
+import { AverageMethodToggle } from "@/components/AverageMethodToggle";
+import { LoadError } from "@/components/LoadError";
+import { useData } from "@/context/DataContext";
+import { DEFAULT_HOUSING_TYPE } from "@/utils/dataUtils";
+import { getYearCoverage } from "@/utils/indexUtils";
+import { describeAverageSources } from "@/utils/averageUtils";
+import type { HousingType } from "@/types";
 
 export function Home() {
-  const [data, setData] = useState<GasConsumptionData | null>(null);
+  const { error, retry, years, getIndex } = useData();
+  const [housingType, setHousingType] = useState<HousingType>(DEFAULT_HOUSING_TYPE);
 
-  useEffect(() => {
-    loadGasConsumptionData().then(setData);
-  }, []);
+  const index = getIndex(housingType, "gas_consumption");
 
   const yearlyAverages = useMemo(() => {
-    if (!data) return [];
-    return calculateNationalAverages(data);
-  }, [data]);
+    if (!index) return [];
+    return getYearCoverage(index, index.years).map(({ year, count, complete }) => ({
+      year,
+      average: index.nationalAverages.get(year)!,
+      count,
+      complete,
+    }));
+  }, [index]);
+
+  const incompleteYears = yearlyAverages.filter((y) => !y.complete);
 
   return (
     <div className="min-h-screen bg-white">
@@ -183,62 +171,102 @@ export function Home() {
             <h2 className="text-2xl font-bold text-slate-800">Explore the Data</h2>
           </div>
           <p className="text-slate-500 text-sm mb-8">
-            The dataset used in this research covers all Dutch municipalities from 2015 to 2024.
+            The dataset used in this research covers all Dutch municipalities
+            {years.length > 0 && ` from ${years[0]} to ${years.at(-1)}`}.
             Use the interactive map to explore consumption patterns by year and municipality.
           </p>
 
           <Card className="mb-6">
-            <CardHeader>
+            <CardHeader className="flex flex-wrap items-center justify-between gap-4">
               <CardTitle>National Average Consumption Over Time</CardTitle>
+              <div className="flex flex-wrap items-start gap-2">
+                <AverageMethodToggle index={index} />
+                <HousingTypeSelector
+                  selectedHousingType={housingType}
+                  onChange={setHousingType}
+                />
+              </div>
             </CardHeader>
             <CardContent>
-              {yearlyAverages.length === 0 ? (
+              {error ? (
+                <div className="h-80 flex items-center justify-center">
+                  <LoadError error={error} onRetry={retry} />
+                </div>
+              ) : yearlyAverages.length === 0 ? (
                 <div className="h-80 flex items-center justify-center text-slate-400 text-sm">Loading...</div>
               ) : (
-                <div className="h-80">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <LineChart
-                      data={yearlyAverages}
-                      margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
-                    >
-                      <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
-                      <XAxis
-                        dataKey="year"
-                        tick={{ fill: "#64748b" }}
-                        tickLine={{ stroke: "#94a3b8" }}
-                      />
-                      <YAxis
-                        tick={{ fill: "#64748b" }}
-                        tickLine={{ stroke: "#94a3b8" }}
-                        domain={["dataMin - 100", "dataMax + 100"]}
-                        label={{
-                          value: "m³/dwelling/year",
-                          angle: -90,
-                          position: "insideLeft",
-                          fill: "#64748b",
-                        }}
-                      />
-                      <Tooltip
-                        formatter={(value) => [`${value} m³`, "Average"]}
-                        labelFormatter={(label) => `Year: ${label}`}
-                        contentStyle={{
-                          backgroundColor: "#1e293b",
-                          border: "none",
-                          borderRadius: "8px",
-                          color: "#f8fafc",
-                        }}
-                      />
-                      <Line
-                        type="monotone"
-                        dataKey="average"
-                        stroke="#3b82f6"
-                        strokeWidth={3}
-                        dot={{ fill: "#3b82f6", strokeWidth: 2, r: 4 }}
-                        activeDot={{ r: 6 }}
-                      />
-                    </LineChart>
-                  </ResponsiveContainer>
-                </div>
+                <>
+                  <div className="h-80">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart
+                        data={yearlyAverages}
+                        margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+                      >
+                        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                        <XAxis
+                          dataKey="year"
+                          tick={{ fill: "#64748b" }}
+                          tickLine={{ stroke: "#94a3b8" }}
+                        />
+                        <YAxis
+                          tick={{ fill: "#64748b" }}
+                          tickLine={{ stroke: "#94a3b8" }}
+                          domain={["dataMin - 100", "dataMax + 100"]}
+                          label={{
+                            value: "m³/dwelling/year",
+                            angle: -90,
+                            position: "insideLeft",
+                            fill: "#64748b",
+                          }}
+                        />
+                        <Tooltip
+                          formatter={(value, _name, props) => [
+                            props.payload.complete
+                              ? `${value} m³`
+                              : `${value} m³ (${props.payload.count} municipalities)`,
+                            "Average",
+                          ]}
+                          labelFormatter={(label) => `Year: ${label}`}
+                          contentStyle={{
+                            backgroundColor: "#1e293b",
+                            border: "none",
+                            borderRadius: "8px",
+                            color: "#f8fafc",
+                          }}
+                        />
+                        <Line
+                          type="monotone"
+                          dataKey="average"
+                          stroke="#3b82f6"
+                          strokeWidth={3}
+                          dot={({ cx, cy, payload }) => (
+                            <circle
+                              key={payload.year}
+                              cx={cx}
+                              cy={cy}
+                              r={4}
+                              strokeWidth={2}
+                              stroke={payload.complete ? "#3b82f6" : "#f59e0b"}
+                              fill={payload.complete ? "#3b82f6" : "#fff"}
+                            />
+                          )}
+                          activeDot={{ r: 6 }}
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                  {index && (
+                    <p className="text-xs text-slate-500 text-center">
+                      {describeAverageSources(index.averageSources)}
+                    </p>
+                  )}
+                  {incompleteYears.length > 0 && (
+                    <p className="text-xs text-slate-500 text-center">
+                      Open markers: incomplete coverage in{" "}
+                      {incompleteYears.map((y) => y.year).join(", ")}
+                    </p>
+                  )}
+                </>
               )}
             </CardContent>
           </Card>
@@ -270,6 +298,23 @@ export function Home() {
             </svg>
             View source on GitHub
           </a>
+          <p>
+            <Link to="/data-quality" className="text-slate-400 hover:text-slate-700 transition-colors">
+              Data quality report
+            </Link>
+            {" · "}
+            <Link to="/rankings" className="text-slate-400 hover:text-slate-700 transition-colors">
+              Rankings
+            </Link>
+            {" · "}
+            <Link to="/models" className="text-slate-400 hover:text-slate-700 transition-colors">
+              Models
+            </Link>
+            {" · "}
+            <Link to="/explore" className="text-slate-400 hover:text-slate-700 transition-colors">
+              Explore
+            </Link>
+          </p>
         </div>
       </footer>
     </div>
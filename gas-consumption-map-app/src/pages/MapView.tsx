@@ -1,12 +1,130 @@
-import { useState } from "react";
-import { Link } from "react-router-dom";
+import { useCallback, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import { GasConsumptionMap } from "@/components/GasConsumptionMap";
+import { HousingTypeSelector } from "@/components/HousingTypeSelector";
+import { MetricSelector } from "@/components/MetricSelector";
+import { ClassificationSelector } from "@/components/ClassificationSelector";
+import { ChangeSelector } from "@/components/ChangeSelector";
+import { WeatherToggle } from "@/components/WeatherToggle";
+import { AverageMethodToggle } from "@/components/AverageMethodToggle";
+import { ForecastSelector } from "@/components/ForecastSelector";
+import { TimelineSlider } from "@/components/TimelineSlider";
+import { MunicipalitySearch } from "@/components/MunicipalitySearch";
+import { AggregationLevelSelector } from "@/components/AggregationLevelSelector";
+import { CovariateSelector } from "@/components/CovariateSelector";
+import { useData } from "@/context/DataContext";
+import { getMetricDefinition } from "@/utils/dataUtils";
+import { getYearCoverage } from "@/utils/indexUtils";
+import { getForecastIndex, getForecastYears } from "@/utils/forecastUtils";
+import {
+  COVARIATE_PALETTE,
+  getCovariateDefinition,
+  getCovariateValues,
+  getCovariateYear,
+} from "@/utils/covariateUtils";
+import { parseMapUrlState, toMapSearchParams, type MapUrlState } from "@/utils/urlState";
+import type { ChangeSettings, MapViewport, NumericOverlay } from "@/types";
 import { Home } from "lucide-react";
 
-const YEARS = [2015, 2016, 2017, 2018, 2019, 2020, 2021, 2022, 2023, 2024];
-
+// The view lives in the query string so links reproduce it and back/forward
+// step through it. Panning, zooming and playback replace the current history
+// entry instead of adding one per step.
 export function MapView() {
-  const [selectedYear, setSelectedYear] = useState(2015);
+  const { years, regionGeoData, covariates, getIndex } = useData();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // milliseconds per year, shared by playback and the exported animation
+  const [playbackSpeed, setPlaybackSpeed] = useState(1000);
+  const [flyTo, setFlyTo] = useState<{ statcode: string } | null>(null);
+
+  const state = useMemo(() => parseMapUrlState(searchParams), [searchParams]);
+  const { metric, housingType, weatherCorrected, mode, forecast } = state;
+  // A level whose boundary file is absent (or still loading) shows municipalities
+  const level =
+    state.level === "municipality" || regionGeoData[state.level] ? state.level : "municipality";
+
+  // Parsing creates new objects on every URL change (e.g. each pan); rebuild
+  // them from their fields so the map only reclassifies when they change.
+  const { method, classCount, palette, scale } = state.classification;
+  const classification = useMemo(
+    () => ({ method, classCount, palette, scale }),
+    [method, classCount, palette, scale]
+  );
+
+  const update = useCallback(
+    (patch: Partial<MapUrlState>, replace = false) => {
+      setSearchParams((params) => toMapSearchParams({ ...parseMapUrlState(params), ...patch }), {
+        replace,
+      });
+    },
+    [setSearchParams]
+  );
+
+  const latestYear = years.at(-1) ?? 0;
+  // Forecast years extend the timeline, not the years change mode compares
+  const timelineYears = useMemo(
+    () => (forecast && years.length > 0 ? [...years, ...getForecastYears(latestYear)] : years),
+    [forecast, years, latestYear]
+  );
+  const year =
+    state.year !== null && timelineYears.includes(state.year) ? state.year : latestYear;
+  const fromYear = state.change?.fromYear ?? years[0];
+  const toYear = state.change?.toYear ?? latestYear;
+  const unit = state.change?.unit ?? "percent";
+  const change: ChangeSettings = useMemo(
+    () => ({ fromYear, toYear, unit }),
+    [fromYear, toYear, unit]
+  );
+
+  const reportedIndex = useMemo(
+    () => getIndex(housingType, metric, "current", weatherCorrected, level),
+    [getIndex, housingType, metric, weatherCorrected, level]
+  );
+  const index = useMemo(
+    () =>
+      reportedIndex && forecast ? getForecastIndex(reportedIndex, forecast, metric) : reportedIndex,
+    [reportedIndex, forecast, metric]
+  );
+  const coverage = useMemo(
+    () => (index ? getYearCoverage(index, timelineYears) : []),
+    [index, timelineYears]
+  );
+
+  // A covariate replaces the metric on the municipal map of values, in the
+  // latest year it is published up to the selected one
+  const covariateAvailable = mode === "value" && level === "municipality";
+  const overlay: NumericOverlay | null = useMemo(() => {
+    const definition =
+      covariates && state.covariate ? getCovariateDefinition(covariates, state.covariate) : null;
+    if (!covariates || !definition || !covariateAvailable) return null;
+    const covariateYear = getCovariateYear(covariates, definition.key, year);
+    if (covariateYear === null) return null;
+    return {
+      kind: "numeric",
+      values: getCovariateValues(covariates, definition.key, covariateYear),
+      title: `${definition.label}${definition.unit ? ` (${definition.unit})` : ""}, ${covariateYear}`,
+      label: definition.label,
+      unit: definition.unit,
+      decimals: definition.decimals,
+      palette: COVARIATE_PALETTE,
+    };
+  }, [covariates, state.covariate, covariateAvailable, year]);
+
+  const onViewportChange = useCallback(
+    (viewport: MapViewport) => update({ viewport }, true),
+    [update]
+  );
+  const onSelect = useCallback((selected: string | null) => update({ selected }), [update]);
+  const onSearchChoose = useCallback(
+    (statcode: string) => {
+      update({ selected: statcode });
+      setFlyTo({ statcode });
+    },
+    [update]
+  );
+  const onYearChange = useCallback(
+    (year: number, playing: boolean) => update({ year }, playing),
+    [update]
+  );
 
   return (
     <div className="h-screen flex flex-col">
@@ -21,25 +139,75 @@ export function MapView() {
               <span className="text-sm">Home</span>
             </Link>
           </div>
-          <div className="flex gap-1">
-            {YEARS.map((year) => (
-              <button
-                key={year}
-                onClick={() => setSelectedYear(year)}
-                className={`px-3 py-1 rounded text-sm transition-colors ${
-                  selectedYear === year
-                    ? "bg-white text-slate-800 font-medium"
-                    : "bg-slate-700 hover:bg-slate-600"
-                }`}
-              >
-                {year}
-              </button>
-            ))}
+          <div className={mode === "change" || coverage.length === 0 ? "invisible" : ""}>
+            <TimelineSlider
+              coverage={coverage}
+              selectedYear={year}
+              onYearChange={onYearChange}
+              speed={playbackSpeed}
+              onSpeedChange={setPlaybackSpeed}
+              forecastFrom={forecast ? latestYear + 1 : null}
+            />
           </div>
         </div>
       </header>
       <main className="flex-1 relative">
-        <GasConsumptionMap selectedYear={selectedYear} />
+        <GasConsumptionMap
+          selectedYear={mode === "change" ? change.toYear : year}
+          housingType={housingType}
+          metric={metric}
+          level={level}
+          classification={classification}
+          change={mode === "change" ? change : null}
+          weatherCorrected={weatherCorrected}
+          forecast={forecast}
+          animationYears={timelineYears}
+          frameDuration={playbackSpeed}
+          selectedStatcode={state.selected}
+          onSelect={onSelect}
+          viewport={state.viewport}
+          onViewportChange={onViewportChange}
+          flyTo={flyTo}
+          overlay={overlay}
+        />
+        <div className="absolute top-3 left-14 z-[1000] flex flex-col gap-2">
+          {level === "municipality" && <MunicipalitySearch onChoose={onSearchChoose} />}
+          <MetricSelector selectedMetric={metric} onChange={(metric) => update({ metric })} />
+          <AggregationLevelSelector
+            level={level}
+            onChange={(level) => update({ level, selected: null })}
+          />
+          <ChangeSelector
+            mode={mode}
+            settings={change}
+            years={years}
+            onModeChange={(mode) => update({ mode })}
+            onSettingsChange={(change) => update({ change })}
+          />
+          <WeatherToggle
+            metric={metric}
+            weatherCorrected={weatherCorrected}
+            onChange={(weatherCorrected) => update({ weatherCorrected })}
+          />
+          <AverageMethodToggle index={reportedIndex} />
+          {mode === "value" && (
+            <ForecastSelector model={forecast} onChange={(forecast) => update({ forecast })} />
+          )}
+          <HousingTypeSelector
+            selectedHousingType={housingType}
+            onChange={(housingType) => update({ housingType })}
+          />
+          <CovariateSelector
+            covariate={state.covariate}
+            available={covariateAvailable}
+            onChange={(covariate) => update({ covariate })}
+          />
+          <ClassificationSelector
+            classification={classification}
+            defaultPalette={overlay ? COVARIATE_PALETTE : getMetricDefinition(metric).palette}
+            onChange={(classification) => update({ classification })}
+          />
+        </div>
       </main>
     </div>
   );
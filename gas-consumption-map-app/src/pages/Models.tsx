@@ -0,0 +1,485 @@
+import { useCallback, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Home, Map, Upload } from "lucide-react";
+import {
+  CartesianGrid,
+  Legend as ChartLegend,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { GasConsumptionMap } from "@/components/GasConsumptionMap";
+import { ShapExplanations } from "@/components/ShapExplanations";
+import { LoadError } from "@/components/LoadError";
+import { useData } from "@/context/DataContext";
+import { getHousingTypeLabel, getMetricDefinition } from "@/utils/dataUtils";
+import { DEFAULT_CLASSIFICATION } from "@/utils/classificationUtils";
+import { COMPARE_COLORS } from "@/utils/compareUtils";
+import {
+  computeMetricsByYear,
+  getModelLabel,
+  joinPredictions,
+  type PredictionRow,
+} from "@/utils/modelUtils";
+import { DataValidationError } from "@/utils/validation";
+import type { ModelResult, NumericOverlay } from "@/types";
+
+const ALL_YEARS = "all";
+
+const FORMAT_EXAMPLE = `{
+  "metadata": { "description": "...", "metric": "gas_consumption", "housing_type": "total" },
+  "predictions": [
+    { "statcode": "GM0363", "year": 2022, "predicted": 1010, "lower": 890, "upper": 1130, "model": "gbm" }
+  ]
+}`;
+
+const SHAP_FORMAT_EXAMPLE = `{
+  "metadata": { "model": "gbm", "feature_labels": { "build_year": "Median construction year" } },
+  "base_value": 1180,
+  "explanations": [
+    { "statcode": "GM0363", "year": 2022, "shap": { "build_year": 85.2 }, "features": { "build_year": 1965 } }
+  ]
+}`;
+
+function getResultKey(result: ModelResult): string {
+  return `${result.model}|${result.source}`;
+}
+
+function formatNumber(value: number | null, decimals: number): string {
+  return value === null
+    ? "–"
+    : value.toLocaleString(undefined, {
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals,
+      });
+}
+
+// The map has no viewport to restore here
+function ignoreViewport() {}
+
+export function Models() {
+  const { error, retry, getIndex, modelResults, shapResults, modelErrors, addModelFiles } =
+    useData();
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const [selectedStatcode, setSelectedStatcode] = useState<string | null>(null);
+
+  // Each model is compared with the metric and housing type it predicts, on
+  // current municipal boundaries (see ModelPredictionFile)
+  const models = useMemo(
+    () =>
+      modelResults.map((result, i) => {
+        const index = getIndex(result.housingType, result.metric, "current");
+        const rows = index ? joinPredictions(result, index) : [];
+        return {
+          result,
+          key: getResultKey(result),
+          label: getModelLabel(result, modelResults),
+          color: COMPARE_COLORS[i % COMPARE_COLORS.length],
+          rows,
+          metrics: computeMetricsByYear(rows),
+        };
+      }),
+    [modelResults, getIndex]
+  );
+
+  const selected = models.find((m) => m.key === selectedKey) ?? models[0];
+  const metricDefinition = getMetricDefinition(selected?.result.metric ?? "gas_consumption");
+
+  const years = useMemo(
+    () => [...new Set(models.flatMap((m) => m.rows.map((r) => r.year)))].sort((a, b) => b - a),
+    [models]
+  );
+  const year = selectedYear !== null && years.includes(selectedYear) ? selectedYear : null;
+  const inYear = useCallback(
+    (rows: PredictionRow[]) => (year === null ? rows : rows.filter((r) => r.year === year)),
+    [year]
+  );
+
+  // The scatter plot shares one scale, so it holds the models of the selected metric
+  const scatterModels = useMemo(
+    () =>
+      models
+        .filter((m) => m.result.metric === selected?.result.metric)
+        .map((m) => ({ ...m, points: inYear(m.rows) })),
+    [models, selected, inYear]
+  );
+  const extent = useMemo(() => {
+    const values = scatterModels.flatMap((m) => m.points.flatMap((p) => [p.actual, p.predicted]));
+    return values.length > 0 ? [Math.min(...values), Math.max(...values)] : null;
+  }, [scatterModels]);
+
+  // Residuals are mapped for one year: the selected one or the model's latest
+  const mapYear =
+    year ??
+    (selected && selected.rows.length > 0
+      ? Math.max(...selected.rows.map((r) => r.year))
+      : undefined);
+  const overlay: NumericOverlay | null = useMemo(() => {
+    if (!selected || mapYear === undefined) return null;
+    const values: NumericOverlay["values"] = {};
+    for (const row of selected.rows) {
+      if (row.year === mapYear) values[row.statcode] = row.residual;
+    }
+    return {
+      kind: "numeric",
+      values,
+      title: `Residual, actual − predicted (${metricDefinition.unitLabel})`,
+      label: `Residual of ${selected.label}`,
+      unit: metricDefinition.unit,
+      decimals: metricDefinition.decimals,
+    };
+  }, [selected, mapYear, metricDefinition]);
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-screen p-6">
+        <LoadError error={error} onRetry={retry} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <header className="bg-slate-800 text-white px-4 py-3">
+        <div className="max-w-6xl mx-auto flex items-center gap-4">
+          <nav className="flex items-center gap-3">
+            <Link
+              to="/"
+              className="flex items-center gap-1.5 text-slate-300 hover:text-white transition-colors"
+            >
+              <Home className="w-4 h-4" />
+              <span className="text-sm">Home</span>
+            </Link>
+            <span className="text-slate-500">/</span>
+            <Link
+              to="/map"
+              className="flex items-center gap-1.5 text-slate-300 hover:text-white transition-colors"
+            >
+              <Map className="w-4 h-4" />
+              <span className="text-sm">Map</span>
+            </Link>
+          </nav>
+          <span className="text-slate-500">/</span>
+          <h1 className="text-lg font-medium">Models</h1>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-6 space-y-6">
+        <Card>
+          <CardHeader className="flex flex-row flex-wrap items-center gap-3 space-y-0">
+            <CardTitle className="mr-auto">Model files</CardTitle>
+            <label className="inline-flex items-center gap-1.5 rounded border border-slate-200 px-2 py-1 text-sm hover:bg-slate-100 cursor-pointer">
+              <Upload className="w-4 h-4" />
+              Add files
+              <input
+                type="file"
+                accept=".json,application/json"
+                multiple
+                className="sr-only"
+                onChange={(e) => {
+                  addModelFiles([...(e.target.files ?? [])]);
+                  // Picking the same file again reloads it
+                  e.target.value = "";
+                }}
+              />
+            </label>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            {models.length === 0 && shapResults.length === 0 ? (
+              <p className="text-muted-foreground">
+                No predictions or SHAP values loaded. List files in public/models/index.json as{" "}
+                <code>{'{"files": ["model.json"]}'}</code> or add them here.
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {models.map(({ key, label, color, result, rows }) => (
+                  <li key={key} className="flex flex-wrap items-center gap-2">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: color }} />
+                    <span className="font-medium">{label}</span>
+                    <span className="text-muted-foreground">
+                      {getMetricDefinition(result.metric).label},{" "}
+                      {getHousingTypeLabel(result.housingType).toLowerCase()} ·{" "}
+                      {result.predictions.length} predictions, {rows.length} with a reported
+                      value · {result.source}
+                    </span>
+                  </li>
+                ))}
+                {shapResults.map((result) => (
+                  <li key={result.source} className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{result.model}</span>
+                    <span className="text-muted-foreground">
+                      SHAP values for {getMetricDefinition(result.metric).label.toLowerCase()} ·{" "}
+                      {result.explanations.length} explanations of {result.features.length}{" "}
+                      features · {result.source}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {modelErrors.map((modelError, i) => (
+              <div key={i} className="text-red-600">
+                <p>{modelError.message}</p>
+                {modelError instanceof DataValidationError && (
+                  <ul className="text-xs font-mono text-muted-foreground">
+                    {modelError.issues.map((issue, j) => (
+                      <li key={j}>
+                        {issue.path || "(root)"}: {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+            <details className="text-muted-foreground">
+              <summary className="cursor-pointer">File format</summary>
+              <p className="mt-2">
+                One JSON object with a list of predictions per municipality (GM code) and year.
+                The interval is optional; the metadata defaults to gas consumption of all
+                dwellings. Predictions are compared with reported values on current boundaries.
+              </p>
+              <pre className="mt-2 overflow-x-auto rounded bg-slate-100 p-2 text-xs">
+                {FORMAT_EXAMPLE}
+              </pre>
+              <p className="mt-2">
+                SHAP files hold each feature's contribution per municipality and year, in the
+                unit of the predicted metric, and optionally the feature values. The base value
+                is the model's average prediction.
+              </p>
+              <pre className="mt-2 overflow-x-auto rounded bg-slate-100 p-2 text-xs">
+                {SHAP_FORMAT_EXAMPLE}
+              </pre>
+            </details>
+          </CardContent>
+        </Card>
+
+        {selected && (
+          <>
+            <div className="flex flex-wrap justify-end gap-2">
+              <Card className="p-3">
+                <div className="flex items-center gap-2">
+                  <label className="text-sm font-medium">Year</label>
+                  <Select
+                    value={year === null ? ALL_YEARS : String(year)}
+                    onValueChange={(value) =>
+                      setSelectedYear(value === ALL_YEARS ? null : Number(value))
+                    }
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_YEARS}>All years</SelectItem>
+                      {years.map((y) => (
+                        <SelectItem key={y} value={String(y)}>
+                          {y}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </Card>
+              <Card className="p-3">
+                <div className="flex items-center gap-2">
+                  <label className="text-sm font-medium">Model</label>
+                  <Select value={selected.key} onValueChange={setSelectedKey}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {models.map(({ key, label }) => (
+                        <SelectItem key={key} value={key}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Error metrics</CardTitle>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-muted-foreground">
+                      <th className="px-3 py-2 font-medium text-left">Model</th>
+                      <th className="px-3 py-2 font-medium text-left">Year</th>
+                      <th className="px-3 py-2 font-medium text-right">n</th>
+                      <th className="px-3 py-2 font-medium text-right">MAE</th>
+                      <th className="px-3 py-2 font-medium text-right">RMSE</th>
+                      <th className="px-3 py-2 font-medium text-right">MAPE</th>
+                      <th className="px-3 py-2 font-medium text-right">R²</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {models.flatMap(({ key, label, result, metrics }) => {
+                      const { decimals } = getMetricDefinition(result.metric);
+                      return metrics.map(({ year: metricYear, metrics: m }) => (
+                        <tr
+                          key={`${key}|${metricYear}`}
+                          className={`border-b last:border-0 ${
+                            metricYear === year ? "bg-slate-100" : ""
+                          }`}
+                        >
+                          <td className="px-3 py-1.5">{metricYear === null ? label : ""}</td>
+                          <td className="px-3 py-1.5">{metricYear ?? "All years"}</td>
+                          <td className="px-3 py-1.5 text-right tabular-nums">{m.count}</td>
+                          <td className="px-3 py-1.5 text-right tabular-nums">
+                            {formatNumber(m.mae, decimals)}
+                          </td>
+                          <td className="px-3 py-1.5 text-right tabular-nums">
+                            {formatNumber(m.rmse, decimals)}
+                          </td>
+                          <td className="px-3 py-1.5 text-right tabular-nums">
+                            {m.mape === null ? "–" : `${formatNumber(m.mape, 1)}%`}
+                          </td>
+                          <td className="px-3 py-1.5 text-right tabular-nums">
+                            {formatNumber(m.r2, 3)}
+                          </td>
+                        </tr>
+                      ));
+                    })}
+                  </tbody>
+                </table>
+                <p className="mt-3 text-xs text-muted-foreground">
+                  Over municipalities with a reported value; MAE and RMSE in the unit of the
+                  predicted metric. MAPE leaves out actual values of zero.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  Predicted vs actual{" "}
+                  <span className="text-sm font-normal text-muted-foreground">
+                    {metricDefinition.label}, {year ?? "all years"}
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="h-96">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 10 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis
+                        type="number"
+                        dataKey="actual"
+                        name="Actual"
+                        domain={["auto", "auto"]}
+                        label={{
+                          value: `Actual (${metricDefinition.unit})`,
+                          position: "insideBottom",
+                          offset: -10,
+                        }}
+                      />
+                      <YAxis
+                        type="number"
+                        dataKey="predicted"
+                        name="Predicted"
+                        domain={["auto", "auto"]}
+                        label={{
+                          value: `Predicted (${metricDefinition.unit})`,
+                          angle: -90,
+                          position: "insideLeft",
+                        }}
+                      />
+                      <Tooltip
+                        formatter={(value) =>
+                          typeof value === "number" ? value.toLocaleString() : value
+                        }
+                        labelFormatter={() => ""}
+                      />
+                      <ChartLegend verticalAlign="top" />
+                      {extent && (
+                        <ReferenceLine
+                          segment={[
+                            { x: extent[0], y: extent[0] },
+                            { x: extent[1], y: extent[1] },
+                          ]}
+                          stroke="#94a3b8"
+                          strokeDasharray="4 4"
+                        />
+                      )}
+                      {scatterModels.map(({ key, label, color, points }) => (
+                        <Scatter
+                          key={key}
+                          name={label}
+                          data={points}
+                          fill={color}
+                          fillOpacity={0.6}
+                          isAnimationActive={false}
+                        />
+                      ))}
+                    </ScatterChart>
+                  </ResponsiveContainer>
+                </div>
+                <p className="mt-3 text-xs text-muted-foreground">
+                  Points on the dashed line are predicted exactly.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  Residuals of {selected.label}{" "}
+                  <span className="text-sm font-normal text-muted-foreground">{mapYear}</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {overlay && mapYear !== undefined ? (
+                  <div className="h-[520px] rounded overflow-hidden">
+                    <GasConsumptionMap
+                      selectedYear={mapYear}
+                      housingType={selected.result.housingType}
+                      metric={selected.result.metric}
+                      level="municipality"
+                      classification={DEFAULT_CLASSIFICATION}
+                      change={null}
+                      weatherCorrected={false}
+                      forecast={null}
+                      animationYears={[]}
+                      frameDuration={0}
+                      selectedStatcode={selectedStatcode}
+                      onSelect={setSelectedStatcode}
+                      viewport={null}
+                      onViewportChange={ignoreViewport}
+                      flyTo={null}
+                      overlay={overlay}
+                    />
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    None of this model's predictions has a reported value to compare with.
+                  </p>
+                )}
+                <p className="mt-3 text-xs text-muted-foreground">
+                  Positive residuals (red) are municipalities where the model predicts too low.
+                </p>
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {shapResults.length > 0 && <ShapExplanations results={shapResults} />}
+      </main>
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
-import { useEffect, useState, useMemo } from "react";
+import { useState, useMemo } from "react";
 import { useParams, Link } from "react-router-dom";
-import { MapContainer, GeoJSON, TileLayer } from "react-leaflet";
+import { MapContainer, GeoJSON } from "react-leaflet";
 import { Home, Map, TrendingDown, TrendingUp, Minus, Award, AlertTriangle } from "lucide-react";
 import {
-  LineChart,
+  ComposedChart,
+  Area,
   Line,
   XAxis,
   YAxis,
@@ -17,162 +18,254 @@ import {
   ReferenceLine,
 } from "recharts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { HousingTypeSelector } from "@/components/HousingTypeSelector";
+import { MetricSelector } from "@/components/MetricSelector";
+import { MunicipalityLineage } from "@/components/MunicipalityLineage";
+import { LoadError } from "@/components/LoadError";
+import { Basemap } from "@/components/Basemap";
+import { WeatherToggle } from "@/components/WeatherToggle";
+import { AverageMethodToggle } from "@/components/AverageMethodToggle";
+import { ForecastSelector } from "@/components/ForecastSelector";
+import { AddToCompareButton } from "@/components/AddToCompareButton";
+import { ShapWaterfall } from "@/components/ShapWaterfall";
+import { useData } from "@/context/DataContext";
 import {
-  loadGasConsumptionData,
-  loadMunicipalityGeoJSON,
   findMunicipalityBySlug,
-  slugify,
-  normalizeMunicipalityName,
+  getHousingTypeLabel,
+  getMetricDefinition,
+  DEFAULT_HOUSING_TYPE,
+  DEFAULT_METRIC,
 } from "@/utils/dataUtils";
-import type { GasConsumptionData, GasConsumptionRecord } from "@/types";
+import { getYearCoverage } from "@/utils/indexUtils";
+import { describeAverageSources, getAverageSourceLabel } from "@/utils/averageUtils";
+import { FORECAST_INTERVAL, getForecastIndex } from "@/utils/forecastUtils";
+import { COMPARE_COLORS } from "@/utils/compareUtils";
+import { getModelLabel } from "@/utils/modelUtils";
+import { formatCovariateValue, getMunicipalityCovariates } from "@/utils/covariateUtils";
+import {
+  getFormingMergers,
+  getStatcodeByMunicipality,
+  isDissolved,
+} from "@/utils/lineageUtils";
+import { findRegion } from "@/utils/regionUtils";
+import type { AggregationLevel, BoundaryMode, ForecastModel, HousingType, Metric } from "@/types";
 import "leaflet/dist/leaflet.css";
 
+const MAP_ZOOM: Record<AggregationLevel, number> = { municipality: 10, province: 8, landsdeel: 7 };
+
 interface YearlyDataWithStats {
   year: number;
-  gas_consumption: number;
+  value: number;
+  // reported value, only set when value is weather-corrected
+  rawValue: number | null;
   nationalAverage: number;
   rank: number;
   totalMunicipalities: number;
+  // false when fewer municipalities than usual report that year, which makes
+  // the national average and rank less comparable
+  coverageComplete: boolean;
   yearOverYearChange: number | null;
   isMin: boolean;
   isMax: boolean;
 }
 
+// History plus the forecast, which starts at the last reported year so the
+// dashed line joins the solid one, and the predictions of loaded models
+type ChartRow = Partial<YearlyDataWithStats> & {
+  year: number;
+  forecast?: number;
+  interval?: [number, number];
+  // by model line key
+  predicted?: Record<string, number>;
+};
+
+// Red is the municipality itself
+const MODEL_COLORS = COMPARE_COLORS.slice(1);
+
 export function MunicipalityDetail() {
   const { slug } = useParams<{ slug: string }>();
-  const [data, setData] = useState<GasConsumptionData | null>(null);
-  const [geoData, setGeoData] = useState<GeoJSON.FeatureCollection | null>(null);
-  const [municipalityName, setMunicipalityName] = useState<string | null>(null);
-  const [records, setRecords] = useState<GasConsumptionRecord[]>([]);
-
-  useEffect(() => {
-    async function load() {
-      const [consumptionData, geo] = await Promise.all([
-        loadGasConsumptionData(),
-        loadMunicipalityGeoJSON(),
-      ]);
-      setData(consumptionData);
-      setGeoData(geo);
-
-      if (slug) {
-        const name = findMunicipalityBySlug(consumptionData, slug);
-        setMunicipalityName(name);
-
-        if (name) {
-          const municipalityRecords = consumptionData.data
-            .filter((r) => r.municipality === name)
-            .sort((a, b) => a.year - b.year);
-          setRecords(municipalityRecords);
-        }
-      }
-    }
-    load();
-  }, [slug]);
-
-  // Calculate national averages per year
-  const nationalAverages = useMemo(() => {
-    if (!data) return {};
-    const averages: { [year: number]: number } = {};
-    const yearGroups: { [year: number]: number[] } = {};
-
-    for (const record of data.data) {
-      if (!yearGroups[record.year]) {
-        yearGroups[record.year] = [];
-      }
-      yearGroups[record.year].push(record.gas_consumption);
-    }
-
-    for (const [year, values] of Object.entries(yearGroups)) {
-      averages[parseInt(year)] = Math.round(
-        values.reduce((a, b) => a + b, 0) / values.length
-      );
-    }
+  const {
+    data,
+    geoData,
+    regionGeoData,
+    error,
+    retry,
+    getIndex,
+    covariates,
+    modelResults,
+    shapResults,
+  } = useData();
+  const [housingType, setHousingType] = useState<HousingType>(DEFAULT_HOUSING_TYPE);
+  const [metric, setMetric] = useState<Metric>(DEFAULT_METRIC);
+  const [boundaryMode, setBoundaryMode] = useState<BoundaryMode>("historical");
+  const [weatherCorrected, setWeatherCorrected] = useState(false);
+  const [forecastModel, setForecastModel] = useState<ForecastModel | null>("linear");
+  const metricDefinition = getMetricDefinition(metric);
+
+  // Provinces and landsdelen (/region/PV20) share this page with municipalities
+  const region = useMemo(() => (slug ? findRegion(slug) : undefined), [slug]);
+  const level: AggregationLevel = region?.level ?? "municipality";
+
+  const municipalityName = useMemo(() => {
+    if (region) return region.name;
+    if (!data || !slug) return null;
+    return findMunicipalityBySlug(data, slug);
+  }, [data, slug, region]);
+
+  // A dissolved municipality only exists on its historical boundaries
+  const dissolved = municipalityName && !region ? isDissolved(municipalityName) : false;
+  const hasPredecessors =
+    municipalityName && !region
+      ? getFormingMergers(municipalityName).some((m) =>
+          m.predecessors.some((name) => name !== municipalityName)
+        )
+      : false;
+  const effectiveBoundaryMode: BoundaryMode = dissolved ? "historical" : boundaryMode;
+
+  const index = useMemo(
+    () => getIndex(housingType, metric, effectiveBoundaryMode, weatherCorrected, level),
+    [getIndex, housingType, metric, effectiveBoundaryMode, weatherCorrected, level]
+  );
 
-    return averages;
+  const statcodes = useMemo(() => {
+    return getStatcodeByMunicipality(data?.data ?? []);
   }, [data]);
 
-  // Calculate rankings per year
-  const rankingsPerYear = useMemo(() => {
-    if (!data) return {};
-    const rankings: { [year: number]: { [municipality: string]: { rank: number; total: number } } } = {};
-
-    const years = [...new Set(data.data.map((r) => r.year))];
-
-    for (const year of years) {
-      const yearData = data.data
-        .filter((r) => r.year === year)
-        .sort((a, b) => a.gas_consumption - b.gas_consumption);
-
-      rankings[year] = {};
-      yearData.forEach((record, index) => {
-        const normalizedName = normalizeMunicipalityName(record.municipality);
-        rankings[year][normalizedName] = {
-          rank: index + 1,
-          total: yearData.length,
-        };
-      });
-    }
-
-    return rankings;
-  }, [data]);
+  const records = useMemo(() => {
+    if (!index || !municipalityName) return [];
+    return index.byMunicipality.get(municipalityName) ?? [];
+  }, [index, municipalityName]);
 
   // Build enriched yearly data with all stats
   const enrichedData: YearlyDataWithStats[] = useMemo(() => {
-    if (records.length === 0 || !municipalityName) return [];
+    if (records.length === 0 || !index) return [];
 
-    const normalizedName = normalizeMunicipalityName(municipalityName);
-    const values = records.map((r) => r.gas_consumption);
+    const values = records.map((r) => r.value);
     const minValue = Math.min(...values);
     const maxValue = Math.max(...values);
+    const incompleteYears = new Set(
+      getYearCoverage(index, index.years)
+        .filter((c) => !c.complete)
+        .map((c) => c.year)
+    );
 
-    return records.map((record, index) => {
-      const prevRecord = records[index - 1];
+    return records.map((record, i) => {
+      const prevRecord = records[i - 1];
       const yearOverYearChange = prevRecord
-        ? ((record.gas_consumption - prevRecord.gas_consumption) / prevRecord.gas_consumption) * 100
+        ? ((record.value - prevRecord.value) / prevRecord.value) * 100
         : null;
 
-      const ranking = rankingsPerYear[record.year]?.[normalizedName];
-
       return {
         year: record.year,
-        gas_consumption: record.gas_consumption,
-        nationalAverage: nationalAverages[record.year] ?? 0,
-        rank: ranking?.rank ?? 0,
-        totalMunicipalities: ranking?.total ?? 0,
+        value: record.value,
+        rawValue: index.weatherCorrected ? record.rawValue : null,
+        nationalAverage: index.nationalAverages.get(record.year) ?? 0,
+        rank: record.rank,
+        totalMunicipalities: index.byYear.get(record.year)?.length ?? 0,
+        coverageComplete: !incompleteYears.has(record.year),
         yearOverYearChange,
-        isMin: record.gas_consumption === minValue,
-        isMax: record.gas_consumption === maxValue,
+        isMin: record.value === minValue,
+        isMax: record.value === maxValue,
       };
     });
-  }, [records, municipalityName, nationalAverages, rankingsPerYear]);
+  }, [records, index]);
+
+  const chartData: ChartRow[] = useMemo(() => {
+    const last = enrichedData.at(-1);
+    if (!forecastModel || !index || !municipalityName || !last) return enrichedData;
+
+    const forecast = (
+      getForecastIndex(index, forecastModel, metric).byMunicipality.get(municipalityName) ?? []
+    ).filter((r) => r.forecast);
+    if (forecast.length === 0) return enrichedData;
+
+    return [
+      ...enrichedData.slice(0, -1),
+      { ...last, forecast: last.value, interval: [last.value, last.value] },
+      ...forecast.map((r) => ({
+        year: r.year,
+        forecast: r.value,
+        interval: [r.forecast!.lower, r.forecast!.upper] as [number, number],
+      })),
+    ];
+  }, [enrichedData, forecastModel, index, municipalityName, metric]);
+  const hasForecast = chartData.length > enrichedData.length;
+
+  // Model predictions and SHAP values are keyed by GM code
+  const statcode =
+    level === "municipality" && municipalityName ? statcodes.get(municipalityName) : null;
+
+  // Models predict reported municipal values, so their lines are shown for
+  // the metric and housing type they predict, without weather correction
+  const modelLines = useMemo(() => {
+    if (weatherCorrected || !statcode) return [];
+    return modelResults
+      .filter((r) => r.metric === metric && r.housingType === housingType)
+      .map((result, i) => ({
+        key: `${result.model}|${result.source}`,
+        label: getModelLabel(result, modelResults),
+        color: MODEL_COLORS[i % MODEL_COLORS.length],
+        predictions: result.predictions.filter((p) => p.statcode === statcode),
+      }))
+      .filter((line) => line.predictions.length > 0);
+  }, [modelResults, statcode, weatherCorrected, metric, housingType]);
+
+  const municipalityCovariates = useMemo(
+    () => (covariates && statcode ? getMunicipalityCovariates(covariates, statcode) : []),
+    [covariates, statcode]
+  );
+
+  const shapForMetric = useMemo(
+    () => shapResults.filter((r) => r.metric === metric && r.housingType === housingType),
+    [shapResults, metric, housingType]
+  );
+
+  const chartDataWithModels: ChartRow[] = useMemo(() => {
+    if (modelLines.length === 0) return chartData;
+    const rows: (ChartRow & { predicted: Record<string, number> })[] = chartData.map((row) => ({
+      ...row,
+      predicted: {},
+    }));
+    for (const { key, predictions } of modelLines) {
+      for (const { year, predicted } of predictions) {
+        let row = rows.find((r) => r.year === year);
+        if (!row) {
+          row = { year, predicted: {} };
+          rows.push(row);
+        }
+        row.predicted[key] = predicted;
+      }
+    }
+    return rows.sort((a, b) => a.year - b.year);
+  }, [chartData, modelLines]);
+
+  // Years in which CBS publishes no regional figure and the mean of the
+  // region's municipalities is shown instead
+  const estimatedYears = records.filter((r) => r.estimated?.includes(metric)).map((r) => r.year);
 
   // Calculate current percentile
-  const currentPercentile = useMemo(() => {
-    if (enrichedData.length === 0) return null;
-    const latest = enrichedData[enrichedData.length - 1];
-    if (!latest.totalMunicipalities) return null;
-    return Math.round((latest.rank / latest.totalMunicipalities) * 100);
-  }, [enrichedData]);
+  const currentPercentile = records.at(-1)?.percentile ?? null;
 
   const stats = useMemo(() => {
     if (records.length === 0) return null;
 
-    const values = records.map((r) => r.gas_consumption);
+    const values = records.map((r) => r.value);
     const min = Math.min(...values);
     const max = Math.max(...values);
     const avg = values.reduce((a, b) => a + b, 0) / values.length;
 
-    const latest = records[records.length - 1]?.gas_consumption ?? 0;
-    const previous = records[records.length - 2]?.gas_consumption ?? latest;
-    const yearChange = latest - previous;
+    const latest = records[records.length - 1]?.value ?? 0;
+    const previous = records[records.length - 2]?.value ?? latest;
+    const yearChange = Math.round((latest - previous) * 10) / 10;
     const yearChangePercent = previous ? (yearChange / previous) * 100 : 0;
 
-    const oldest = records[0]?.gas_consumption ?? 0;
-    const totalChange = latest - oldest;
+    const oldest = records[0]?.value ?? 0;
+    const totalChange = Math.round((latest - oldest) * 10) / 10;
     const totalChangePercent = oldest ? (totalChange / oldest) * 100 : 0;
 
     const latestYear = records[records.length - 1]?.year;
-    const latestNationalAvg = nationalAverages[latestYear] ?? 0;
+    const latestNationalAvg = index?.nationalAverages.get(latestYear) ?? 0;
+    const latestAverageSource = index?.averageSources.get(latestYear) ?? "unweighted";
     const diffFromNational = latest - latestNationalAvg;
     const diffFromNationalPercent = latestNationalAvg
       ? (diffFromNational / latestNationalAvg) * 100
@@ -190,15 +283,16 @@ export function MunicipalityDetail() {
       diffFromNational,
       diffFromNationalPercent,
       latestNationalAvg,
+      latestAverageSource,
     };
-  }, [records, nationalAverages]);
+  }, [records, index]);
 
   const municipalityGeoData = useMemo(() => {
-    if (!geoData || !municipalityName) return null;
+    const statcode = region?.code ?? (municipalityName ? statcodes.get(municipalityName) : null);
+    const boundaries = region ? regionGeoData[region.level] : geoData;
+    if (!boundaries || !statcode) return null;
 
-    const feature = geoData.features.find(
-      (f) => slugify(f.properties?.statnaam) === slug
-    );
+    const feature = boundaries.features.find((f) => f.properties?.statcode === statcode);
 
     if (!feature) return null;
 
@@ -206,7 +300,7 @@ export function MunicipalityDetail() {
       type: "FeatureCollection" as const,
       features: [feature],
     };
-  }, [geoData, municipalityName, slug]);
+  }, [geoData, regionGeoData, region, municipalityName, statcodes]);
 
   const mapCenter = useMemo(() => {
     if (!municipalityGeoData) return [52.2, 5.5] as [number, number];
@@ -229,6 +323,14 @@ export function MunicipalityDetail() {
     ] as [number, number];
   }, [municipalityGeoData]);
 
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-screen p-6">
+        <LoadError error={error} onRetry={retry} />
+      </div>
+    );
+  }
+
   if (!data) {
     return (
       <div className="flex items-center justify-center h-screen">
@@ -287,10 +389,59 @@ export function MunicipalityDetail() {
           </nav>
           <span className="text-slate-500">/</span>
           <h1 className="text-lg font-medium">{municipalityName}</h1>
+          {!region && (
+            <AddToCompareButton
+              municipality={municipalityName}
+              className="ml-auto text-sm text-slate-300 hover:text-white"
+            />
+          )}
         </div>
       </header>
 
       <main className="max-w-6xl mx-auto p-6 space-y-6">
+        <div className="flex flex-wrap justify-end gap-2">
+          <MetricSelector selectedMetric={metric} onChange={setMetric} />
+          <HousingTypeSelector
+            selectedHousingType={housingType}
+            onChange={setHousingType}
+          />
+          <WeatherToggle
+            metric={metric}
+            weatherCorrected={weatherCorrected}
+            onChange={setWeatherCorrected}
+          />
+          <AverageMethodToggle index={index} />
+          <ForecastSelector model={forecastModel} onChange={setForecastModel} />
+        </div>
+
+        {records.length === 0 && (
+          <Card>
+            <CardContent>
+              <p className="text-muted-foreground">
+                No {metricDefinition.label.toLowerCase()} data available for {municipalityName} (housing type: {getHousingTypeLabel(housingType)}).
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {region ? (
+          <p className="text-sm text-muted-foreground">
+            CBS-published averages for the {region.level} of {region.name} (
+            {region.municipalities.length} municipalities on current boundaries)
+            {estimatedYears.length > 0 &&
+              `; ${estimatedYears.join(", ")} not published by CBS and shown as the mean of ` +
+                "its municipalities"}
+            .
+          </p>
+        ) : (
+          <MunicipalityLineage
+            municipality={municipalityName}
+            statcodes={statcodes}
+            boundaryMode={effectiveBoundaryMode}
+            onBoundaryModeChange={hasPredecessors && !dissolved ? setBoundaryMode : undefined}
+          />
+        )}
+
         {/* Stats Cards */}
         {stats && (
           <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
@@ -304,7 +455,7 @@ export function MunicipalityDetail() {
                 <div className="text-2xl font-bold">
                   {stats.latest.toLocaleString()}
                 </div>
-                <p className="text-xs text-muted-foreground">m³/dwelling</p>
+                <p className="text-xs text-muted-foreground">{metricDefinition.unitLabel}</p>
               </CardContent>
             </Card>
 
@@ -322,7 +473,8 @@ export function MunicipalityDetail() {
                   {stats.diffFromNationalPercent.toFixed(1)}%
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Avg: {stats.latestNationalAvg.toLocaleString()} m³
+                  Avg ({getAverageSourceLabel(stats.latestAverageSource, true)}):{" "}
+                  {stats.latestNationalAvg.toLocaleString()} {metricDefinition.unit}
                 </p>
               </CardContent>
             </Card>
@@ -342,7 +494,7 @@ export function MunicipalityDetail() {
                 </div>
                 <p className="text-xs text-muted-foreground">
                   {stats.yearChange > 0 ? "+" : ""}
-                  {stats.yearChange.toLocaleString()} m³
+                  {stats.yearChange.toLocaleString()} {metricDefinition.unit}
                 </p>
               </CardContent>
             </Card>
@@ -362,7 +514,7 @@ export function MunicipalityDetail() {
                 </div>
                 <p className="text-xs text-muted-foreground">
                   {stats.totalChange > 0 ? "+" : ""}
-                  {stats.totalChange.toLocaleString()} m³
+                  {stats.totalChange.toLocaleString()} {metricDefinition.unit}
                 </p>
               </CardContent>
             </Card>
@@ -390,7 +542,7 @@ export function MunicipalityDetail() {
         {currentPercentile !== null && (
           <Card>
             <CardHeader className="pb-2">
-              <CardTitle className="text-sm">Percentile Position (lower consumption = better)</CardTitle>
+              <CardTitle className="text-sm">Percentile Position (lowest first)</CardTitle>
             </CardHeader>
             <CardContent>
               <div className="relative h-8 bg-gradient-to-r from-green-500 via-yellow-500 to-red-500 rounded-full overflow-hidden">
@@ -400,8 +552,8 @@ export function MunicipalityDetail() {
                 />
               </div>
               <div className="flex justify-between text-xs text-muted-foreground mt-1">
-                <span>Lowest consumption</span>
-                <span>Highest consumption</span>
+                <span>Lowest {metricDefinition.label.toLowerCase()}</span>
+                <span>Highest {metricDefinition.label.toLowerCase()}</span>
               </div>
             </CardContent>
           </Card>
@@ -411,30 +563,64 @@ export function MunicipalityDetail() {
           {/* Chart with National Average */}
           <Card className="md:col-span-2">
             <CardHeader>
-              <CardTitle>Gas Consumption vs National Average</CardTitle>
+              <CardTitle>
+                {metricDefinition.label} vs National Average
+                {index?.weatherCorrected && (
+                  <span className="text-sm font-normal text-muted-foreground"> (weather-corrected)</span>
+                )}
+              </CardTitle>
             </CardHeader>
             <CardContent>
               <div className="h-72">
                 <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={enrichedData}>
+                  <ComposedChart data={chartDataWithModels}>
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="year" />
-                    <YAxis domain={["dataMin - 100", "dataMax + 100"]} />
+                    <YAxis
+                      domain={[
+                        `dataMin - ${metricDefinition.axisPadding}`,
+                        `dataMax + ${metricDefinition.axisPadding}`,
+                      ]}
+                    />
                     <Tooltip
-                      formatter={(value, _name, props) => [
-                        `${Number(value).toLocaleString()} m³`,
-                        props.dataKey === "gas_consumption" ? municipalityName : "National Average",
+                      formatter={(value, name, props) => [
+                        // the interval band has a [lower, upper] value
+                        `${(Array.isArray(value) ? value : [value])
+                          .map((v) => Number(v).toLocaleString())
+                          .join("–")} ${metricDefinition.unit}`,
+                        props.dataKey === "value"
+                          ? municipalityName
+                          : props.dataKey === "rawValue"
+                            ? `${municipalityName} (reported)`
+                            : props.dataKey === "forecast"
+                              ? `${municipalityName} (forecast)`
+                              : props.dataKey === "interval"
+                                ? `${FORECAST_INTERVAL} prediction interval`
+                                : props.dataKey === "nationalAverage"
+                                  ? "National Average"
+                                  : name,
                       ]}
                     />
                     <Legend />
                     <Line
                       type="monotone"
-                      dataKey="gas_consumption"
+                      dataKey="value"
                       name={municipalityName ?? "Municipality"}
                       stroke="#dc2626"
                       strokeWidth={2}
                       dot={{ fill: "#dc2626", strokeWidth: 2 }}
                     />
+                    {index?.weatherCorrected && (
+                      <Line
+                        type="monotone"
+                        dataKey="rawValue"
+                        name={`${municipalityName} (reported)`}
+                        stroke="#fca5a5"
+                        strokeWidth={1.5}
+                        strokeDasharray="2 2"
+                        dot={false}
+                      />
+                    )}
                     <Line
                       type="monotone"
                       dataKey="nationalAverage"
@@ -444,9 +630,52 @@ export function MunicipalityDetail() {
                       strokeDasharray="5 5"
                       dot={false}
                     />
-                  </LineChart>
+                    {hasForecast && (
+                      <Area
+                        type="monotone"
+                        dataKey="interval"
+                        name={`${FORECAST_INTERVAL} prediction interval`}
+                        stroke="none"
+                        fill="#dc2626"
+                        fillOpacity={0.12}
+                      />
+                    )}
+                    {hasForecast && (
+                      <Line
+                        type="monotone"
+                        dataKey="forecast"
+                        name="Forecast"
+                        stroke="#dc2626"
+                        strokeWidth={2}
+                        strokeDasharray="6 4"
+                        dot={false}
+                      />
+                    )}
+                    {modelLines.map(({ key, label, color }) => (
+                      <Line
+                        key={key}
+                        type="monotone"
+                        dataKey={(row: ChartRow) => row.predicted?.[key]}
+                        name={`${label} (predicted)`}
+                        stroke={color}
+                        strokeWidth={1.5}
+                        dot={{ r: 2, fill: color }}
+                        connectNulls
+                      />
+                    ))}
+                  </ComposedChart>
                 </ResponsiveContainer>
               </div>
+              {forecastModel && !hasForecast && records.length > 0 && (
+                <p className="mt-2 text-xs text-muted-foreground">
+                  No forecast: the series is too short or ends before the latest data year.
+                </p>
+              )}
+              {index && (
+                <p className="mt-2 text-xs text-muted-foreground">
+                  National average: {describeAverageSources(index.averageSources)}
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -460,13 +689,13 @@ export function MunicipalityDetail() {
                 {municipalityGeoData && (
                   <MapContainer
                     center={mapCenter}
-                    zoom={10}
+                    zoom={MAP_ZOOM[level]}
                     scrollWheelZoom={false}
                     dragging={false}
                     zoomControl={false}
                     style={{ height: "100%", width: "100%" }}
                   >
-                    <TileLayer url="https://{s}.basemaps.cartocdn.com/light_nolabels/{z}/{x}/{y}{r}.png" />
+                    <Basemap />
                     <GeoJSON
                       data={municipalityGeoData}
                       style={{
@@ -483,10 +712,56 @@ export function MunicipalityDetail() {
           </Card>
         </div>
 
+        {statcode && municipalityName && shapForMetric.length > 0 && (
+          <ShapWaterfall
+            key={statcode}
+            results={shapForMetric}
+            statcode={statcode}
+            name={municipalityName}
+          />
+        )}
+
+        {municipalityCovariates.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Covariates</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-muted-foreground">
+                    <th className="px-3 py-2 font-medium text-left">Covariate</th>
+                    <th className="px-3 py-2 font-medium text-right">Value</th>
+                    <th className="px-3 py-2 font-medium text-right">Year</th>
+                    <th className="px-3 py-2 font-medium text-left">Source</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {municipalityCovariates.map(({ definition, year, value }) => (
+                    <tr key={definition.key} className="border-b last:border-0">
+                      <td className="px-3 py-1.5" title={definition.description || undefined}>
+                        {definition.label}
+                      </td>
+                      <td className="px-3 py-1.5 text-right tabular-nums">
+                        {formatCovariateValue(definition, value)}
+                      </td>
+                      <td className="px-3 py-1.5 text-right">{year}</td>
+                      <td className="px-3 py-1.5 text-muted-foreground">{definition.source}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-3 text-xs text-muted-foreground">
+                Latest published value of each covariate; hover a name for its description.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Ranking Over Time */}
         <Card>
           <CardHeader>
-            <CardTitle>Ranking Over Time (lower = better)</CardTitle>
+            <CardTitle>Ranking Over Time (1 = lowest)</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="h-48">
@@ -573,9 +848,16 @@ export function MunicipalityDetail() {
                         <AlertTriangle className="w-4 h-4 text-red-600" />
                       </div>
                     )}
-                    <div className="text-xs text-muted-foreground">{record.year}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {record.year}
+                      {!record.coverageComplete && (
+                        <span className="text-amber-600" title="Incomplete national coverage">
+                          *
+                        </span>
+                      )}
+                    </div>
                     <div className="text-sm font-semibold">
-                      {record.gas_consumption.toLocaleString()}
+                      {record.value.toLocaleString()}
                     </div>
                     {YoYIcon && (
                       <div className={`flex items-center justify-center gap-0.5 text-[10px] ${yoyColor}`}>
@@ -602,6 +884,12 @@ export function MunicipalityDetail() {
                 <AlertTriangle className="w-3 h-3 text-red-600" />
                 <span>Highest year</span>
               </div>
+              {enrichedData.some((r) => !r.coverageComplete) && (
+                <div className="flex items-center gap-1">
+                  <span className="text-amber-600">*</span>
+                  <span>Incomplete national coverage (average and rank less comparable)</span>
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
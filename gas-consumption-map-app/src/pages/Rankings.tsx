@@ -0,0 +1,351 @@
+import { useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowDown, ArrowUp, Download, Home, Map } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { YearSelector } from "@/components/YearSelector";
+import { HousingTypeSelector } from "@/components/HousingTypeSelector";
+import { MetricSelector } from "@/components/MetricSelector";
+import { AverageMethodToggle } from "@/components/AverageMethodToggle";
+import { LoadError } from "@/components/LoadError";
+import { useData } from "@/context/DataContext";
+import { PROVINCES } from "@/data/provinces";
+import {
+  getMetricDefinition,
+  getMunicipalityPath,
+  DEFAULT_HOUSING_TYPE,
+  DEFAULT_METRIC,
+} from "@/utils/dataUtils";
+import { getAverageSourceLabel } from "@/utils/averageUtils";
+import { downloadBlob, toCsv } from "@/utils/exportUtils";
+import {
+  getRankingRows,
+  sortRankingRows,
+  type RankingColumn,
+  type SortDirection,
+} from "@/utils/rankingUtils";
+import { normalizeSearchText } from "@/utils/searchUtils";
+import type { HousingType, Metric } from "@/types";
+
+const ALL_PROVINCES = "all";
+
+// Only the rows in view (plus a margin) are rendered
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 600;
+const OVERSCAN = 10;
+
+function formatPercent(value: number | null): string {
+  if (value === null) return "–";
+  return `${value > 0 ? "+" : ""}${value.toFixed(1)}%`;
+}
+
+function PercentCell({ value }: { value: number | null }) {
+  const color = value === null || value === 0 ? "" : value > 0 ? "text-red-600" : "text-green-600";
+  return <td className={`px-3 text-right tabular-nums ${color}`}>{formatPercent(value)}</td>;
+}
+
+export function Rankings() {
+  const { error, retry, getIndex } = useData();
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const [housingType, setHousingType] = useState<HousingType>(DEFAULT_HOUSING_TYPE);
+  const [metric, setMetric] = useState<Metric>(DEFAULT_METRIC);
+  const [search, setSearch] = useState("");
+  const [province, setProvince] = useState(ALL_PROVINCES);
+  const [sort, setSort] = useState<{ column: RankingColumn; direction: SortDirection }>({
+    column: "rank",
+    direction: "asc",
+  });
+  const [scrollTop, setScrollTop] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const metricDefinition = getMetricDefinition(metric);
+
+  const index = getIndex(housingType, metric);
+  const years = useMemo(() => (index ? [...index.years].reverse() : []), [index]);
+  const year = selectedYear !== null && years.includes(selectedYear) ? selectedYear : years[0];
+  const firstYear = years.at(-1);
+
+  const allRows = useMemo(
+    () => (index && year !== undefined ? getRankingRows(index, year) : []),
+    [index, year]
+  );
+
+  const rows = useMemo(() => {
+    const query = normalizeSearchText(search);
+    const filtered = allRows.filter(
+      (row) =>
+        (province === ALL_PROVINCES || row.province === province) &&
+        normalizeSearchText(row.municipality).includes(query)
+    );
+    return sortRankingRows(filtered, sort.column, sort.direction);
+  }, [allRows, search, province, sort]);
+
+  // Filtering or sorting starts again from the top of the list
+  const resetScroll = () => {
+    scrollRef.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+  };
+
+  const onSort = (column: RankingColumn) => {
+    setSort((current) => ({
+      column,
+      direction: current.column === column && current.direction === "asc" ? "desc" : "asc",
+    }));
+    resetScroll();
+  };
+
+  const exportCsv = () => {
+    const header = [
+      "Municipality",
+      "Statcode",
+      "Province",
+      `${metricDefinition.label} (${metricDefinition.unitLabel})`,
+      "Rank",
+      "Percentile",
+      `Change since ${year - 1} (%)`,
+      `Change since ${firstYear} (%)`,
+      "Deviation from national average (%)",
+    ];
+    const round = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10);
+    const csv = toCsv([
+      header,
+      ...rows.map((row) => [
+        row.municipality,
+        row.statcode,
+        row.province,
+        row.value,
+        row.rank,
+        row.percentile,
+        round(row.yearOverYear),
+        round(row.sinceFirstYear),
+        round(row.deviation),
+      ]),
+    ]);
+    downloadBlob(
+      new Blob([csv], { type: "text/csv;charset=utf-8" }),
+      `rankings-${metric}-${housingType}-${year}.csv`
+    );
+  };
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-screen p-6">
+        <LoadError error={error} onRetry={retry} />
+      </div>
+    );
+  }
+
+  if (!index || year === undefined) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(
+    rows.length,
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN
+  );
+  const total = allRows.length;
+
+  const columns: { key: RankingColumn; label: string; numeric: boolean }[] = [
+    { key: "municipality", label: "Municipality", numeric: false },
+    { key: "province", label: "Province", numeric: false },
+    { key: "value", label: `${metricDefinition.label} (${metricDefinition.unit})`, numeric: true },
+    { key: "rank", label: "Rank", numeric: true },
+    { key: "percentile", label: "Percentile", numeric: true },
+    { key: "yearOverYear", label: `vs ${year - 1}`, numeric: true },
+    { key: "sinceFirstYear", label: `Since ${firstYear}`, numeric: true },
+    { key: "deviation", label: "vs national avg", numeric: true },
+  ];
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <header className="bg-slate-800 text-white px-4 py-3">
+        <div className="max-w-6xl mx-auto flex items-center gap-4">
+          <nav className="flex items-center gap-3">
+            <Link
+              to="/"
+              className="flex items-center gap-1.5 text-slate-300 hover:text-white transition-colors"
+            >
+              <Home className="w-4 h-4" />
+              <span className="text-sm">Home</span>
+            </Link>
+            <span className="text-slate-500">/</span>
+            <Link
+              to="/map"
+              className="flex items-center gap-1.5 text-slate-300 hover:text-white transition-colors"
+            >
+              <Map className="w-4 h-4" />
+              <span className="text-sm">Map</span>
+            </Link>
+          </nav>
+          <span className="text-slate-500">/</span>
+          <h1 className="text-lg font-medium">Rankings</h1>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-6 space-y-6">
+        <div className="flex flex-wrap justify-end gap-2">
+          <YearSelector
+            years={years}
+            selectedYear={year}
+            onChange={(year) => {
+              setSelectedYear(year);
+              resetScroll();
+            }}
+          />
+          <MetricSelector selectedMetric={metric} onChange={setMetric} />
+          <HousingTypeSelector selectedHousingType={housingType} onChange={setHousingType} />
+          <AverageMethodToggle index={index} />
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row flex-wrap items-center gap-3 space-y-0">
+            <CardTitle className="mr-auto">
+              {metricDefinition.label} in {year}{" "}
+              <span className="text-sm font-normal text-muted-foreground">
+                {rows.length === total ? total : `${rows.length} of ${total}`} municipalities
+              </span>
+            </CardTitle>
+            <input
+              type="search"
+              value={search}
+              placeholder="Filter municipalities"
+              aria-label="Filter municipalities"
+              onChange={(e) => {
+                setSearch(e.target.value);
+                resetScroll();
+              }}
+              className="w-56 rounded border border-slate-200 px-2 py-1 text-sm"
+            />
+            <Select
+              value={province}
+              onValueChange={(value) => {
+                setProvince(value);
+                resetScroll();
+              }}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_PROVINCES}>All provinces</SelectItem>
+                {PROVINCES.map(({ name }) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <button
+              onClick={exportCsv}
+              disabled={rows.length === 0}
+              className="inline-flex items-center gap-1.5 rounded border border-slate-200 px-2 py-1 text-sm hover:bg-slate-100 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              CSV
+            </button>
+          </CardHeader>
+          <CardContent>
+            <div
+              ref={scrollRef}
+              onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+              className="overflow-auto"
+              style={{ maxHeight: VIEWPORT_HEIGHT }}
+            >
+              <table className="w-full text-sm table-fixed">
+                <colgroup>
+                  <col className="w-[22%]" />
+                  <col className="w-[13%]" />
+                </colgroup>
+                <thead className="sticky top-0 bg-white">
+                  <tr className="border-b text-muted-foreground">
+                    {columns.map(({ key, label, numeric }) => (
+                      <th
+                        key={key}
+                        aria-sort={
+                          sort.column === key
+                            ? sort.direction === "asc"
+                              ? "ascending"
+                              : "descending"
+                            : undefined
+                        }
+                        className={`px-3 py-2 font-medium ${numeric ? "text-right" : "text-left"}`}
+                      >
+                        <button
+                          onClick={() => onSort(key)}
+                          className="inline-flex items-center gap-1 hover:text-foreground"
+                        >
+                          {label}
+                          {sort.column === key &&
+                            (sort.direction === "asc" ? (
+                              <ArrowUp className="w-3 h-3" />
+                            ) : (
+                              <ArrowDown className="w-3 h-3" />
+                            ))}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr style={{ height: first * ROW_HEIGHT }} />
+                  {rows.slice(first, last).map((row) => (
+                    <tr
+                      key={row.municipality}
+                      className="border-b last:border-0 hover:bg-slate-50"
+                      style={{ height: ROW_HEIGHT }}
+                    >
+                      <td className="px-3 truncate">
+                        <Link
+                          to={getMunicipalityPath(row.municipality, row.statcode)}
+                          className="text-blue-600 hover:underline"
+                        >
+                          {row.municipality}
+                        </Link>
+                      </td>
+                      <td className="px-3 truncate text-muted-foreground">{row.province ?? "–"}</td>
+                      <td className="px-3 text-right tabular-nums">
+                        {row.value.toLocaleString(undefined, {
+                          maximumFractionDigits: metricDefinition.decimals,
+                        })}
+                      </td>
+                      <td className="px-3 text-right tabular-nums">
+                        {row.rank}
+                        <span className="text-muted-foreground"> / {total}</span>
+                      </td>
+                      <td className="px-3 text-right tabular-nums">{row.percentile}</td>
+                      <PercentCell value={row.yearOverYear} />
+                      <PercentCell value={row.sinceFirstYear} />
+                      <PercentCell value={row.deviation} />
+                    </tr>
+                  ))}
+                  <tr style={{ height: (rows.length - last) * ROW_HEIGHT }} />
+                </tbody>
+              </table>
+              {rows.length === 0 && (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  No municipalities match the filters.
+                </p>
+              )}
+            </div>
+            <p className="mt-3 text-xs text-muted-foreground">
+              Rank 1 is the lowest value. Changes are relative to the same municipality in {year - 1}{" "}
+              and {firstYear}, on current boundaries; the deviation is relative to the national
+              average of {index.nationalAverages.get(year)?.toLocaleString()} {metricDefinition.unit}{" "}
+              ({getAverageSourceLabel(index.averageSources.get(year) ?? "unweighted")}).
+            </p>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -1,20 +1,294 @@
+export type HousingType =
+  | "total"
+  | "apartment"
+  | "terraced"
+  | "corner"
+  | "semi_detached"
+  | "detached"
+  | "owner_occupied"
+  | "rental";
+
+export type Metric =
+  | "gas_consumption"
+  | "electricity_delivery"
+  | "net_electricity_delivery"
+  | "district_heating_share";
+
 export interface GasConsumptionRecord {
   municipality: string;
+  statcode: string | null;
   year: number;
+  housing_type: HousingType;
   gas_consumption: number;
+  electricity_delivery: number | null;
+  net_electricity_delivery: number | null;
+  district_heating_share: number | null;
+  imputed_from?: string[];
+  // Regional records only: metrics CBS does not publish for the region, filled
+  // with the mean of its municipalities
+  estimated?: Metric[];
+  // Number of dwellings the averages are over, when a dwelling table was
+  // supplied to the data build
+  dwellings?: number;
+}
+
+// Average published by CBS for a province or landsdeel
+export interface RegionalRecord {
+  level: RegionLevel;
+  region: string;
+  year: number;
+  housing_type: HousingType;
+  gas_consumption: number | null;
+  electricity_delivery: number | null;
+  net_electricity_delivery: number | null;
+  district_heating_share: number | null;
+}
+
+// Average published by CBS for the Netherlands as a whole ("Nederland")
+export interface NationalRecord {
+  year: number;
+  housing_type: HousingType;
+  gas_consumption: number | null;
+  electricity_delivery: number | null;
+  net_electricity_delivery: number | null;
+  district_heating_share: number | null;
 }
 
 export interface GasConsumptionData {
   metadata: {
     source: string;
     description: string;
-    unit: string;
-    housing_type: string;
+    units: Record<Metric, string>;
+    housing_types: Record<HousingType, string>;
     years_covered: string;
     municipalities_count: number;
     records_count: number;
+    data_completion?: {
+      method: string;
+      records_added: number;
+      municipalities_updated: number;
+    };
+    // Present when dwelling counts were attached to the records
+    dwelling_counts?: {
+      source: string;
+      records_with_dwellings: number;
+    };
   };
   data: GasConsumptionRecord[];
+  regional_averages?: RegionalRecord[];
+  national_averages?: NationalRecord[];
+}
+
+export interface MunicipalMerger {
+  successor: string;
+  predecessors: string[];
+  partial?: string[];
+  effectiveDate: string;
+}
+
+export type BoundaryMode = "current" | "historical";
+
+// How the national average is obtained: the figure CBS publishes for the
+// Netherlands, or the mean of municipalities weighted by their dwellings
+export type AverageMethod = "cbs" | "weighted";
+
+// What a national average actually is; the unweighted mean of
+// municipalities is the fallback when neither method has data for a year
+export type AverageSource = AverageMethod | "unweighted";
+
+// Per-series forecasting baselines (see forecastUtils)
+export type ForecastModel = "linear" | "smoothing" | "pooled";
+
+// One model's prediction for a municipality and year, with an optional
+// prediction interval
+export interface ModelPrediction {
+  statcode: string;
+  year: number;
+  predicted: number;
+  lower?: number;
+  upper?: number;
+  model: string;
+}
+
+// A file of predictions from one or more models. They are compared with the
+// reported values of the metric and housing type in metadata, by default
+// gas consumption of all dwellings, on current municipal boundaries.
+export interface ModelPredictionFile {
+  metadata?: {
+    description?: string;
+    metric?: Metric;
+    housing_type?: HousingType;
+  };
+  predictions: ModelPrediction[];
+}
+
+// The predictions of one model from one file
+export interface ModelResult {
+  model: string;
+  // URL or file name it was loaded from
+  source: string;
+  description?: string;
+  metric: Metric;
+  housingType: HousingType;
+  predictions: ModelPrediction[];
+}
+
+// SHAP values of one municipality and year: each feature's contribution to
+// the prediction, in the unit of the predicted metric, and optionally the
+// feature values themselves
+export interface ShapExplanation {
+  statcode: string;
+  year: number;
+  shap: Record<string, number>;
+  features?: Record<string, number | null>;
+}
+
+// A file of SHAP values for one model. base_value is the model's expected
+// prediction; it plus the SHAP values of a record gives its prediction.
+export interface ShapFile {
+  metadata?: {
+    model?: string;
+    description?: string;
+    metric?: Metric;
+    housing_type?: HousingType;
+    // display names by feature
+    feature_labels?: Record<string, string>;
+  };
+  base_value: number;
+  explanations: ShapExplanation[];
+}
+
+export interface ShapResult {
+  model: string;
+  source: string;
+  description?: string;
+  metric: Metric;
+  housingType: HousingType;
+  baseValue: number;
+  // by mean absolute SHAP value, most important first
+  features: string[];
+  featureLabels: Record<string, string>;
+  explanations: ShapExplanation[];
+}
+
+// A municipal characteristic such as construction year or income, loaded
+// alongside the consumption data and mappable like a metric
+export interface CovariateDefinition {
+  key: string;
+  label: string;
+  unit: string;
+  description: string;
+  source: string;
+  // decimals shown for class breaks and values
+  decimals: number;
+}
+
+// Values of any number of covariates for one municipality and year; columns
+// without a value for the record are absent
+export interface CovariateRecord {
+  statcode: string;
+  year: number;
+  values: Record<string, number>;
+}
+
+// A covariate file: one row per municipality and year, a column per
+// covariate, and optional descriptions of the columns
+export interface CovariateFile {
+  metadata?: {
+    source?: string;
+    covariates?: Record<string, Partial<Omit<CovariateDefinition, "key">>>;
+  };
+  records: ({ statcode: string; year: number } & Record<string, number | string | null>)[];
+}
+
+export interface Covariates {
+  definitions: CovariateDefinition[];
+  records: CovariateRecord[];
+}
+
+export type AggregationLevel = "municipality" | "province" | "landsdeel";
+
+export type RegionLevel = Exclude<AggregationLevel, "municipality">;
+
+export type Landsdeel = "Noord-Nederland" | "Oost-Nederland" | "West-Nederland" | "Zuid-Nederland";
+
+export interface Province {
+  // CBS region code, e.g. PV20
+  code: string;
+  name: string;
+  landsdeel: Landsdeel;
+  municipalities: string[];
+}
+
+export interface Region {
+  level: RegionLevel;
+  code: string;
+  name: string;
+  municipalities: string[];
+}
+
+// Heating degree days per year, nationally and optionally per KNMI weather
+// station, keyed by year as a string.
+export interface HeatingDegreeDays {
+  metadata: {
+    source: string;
+    description: string;
+    base_temperature: number;
+    // Share of gas use that scales with outdoor temperature; the rest
+    // (cooking, hot water) is left uncorrected. Defaults to 1.
+    weather_dependent_share?: number;
+  };
+  national: Record<string, number>;
+  stations?: Record<string, { name: string; hdd: Record<string, number> }>;
+  // statcode -> station number
+  municipality_stations?: Record<string, string>;
+}
+
+export type ClassificationMethod = "quantile" | "equal_interval" | "jenks" | "std_dev";
+
+export type SequentialPalette =
+  | "Reds"
+  | "Blues"
+  | "Greens"
+  | "Purples"
+  | "Oranges"
+  | "YlOrRd"
+  | "YlGnBu";
+
+// "year" classifies the values of the shown year; "all" fixes the classes
+// over every year, so a colour means the same during playback and in exports
+export type ClassScale = "year" | "all";
+
+export interface Classification {
+  method: ClassificationMethod;
+  classCount: number;
+  // null uses the palette of the selected metric
+  palette: SequentialPalette | null;
+  scale: ClassScale;
+}
+
+export type MapMode = "value" | "change";
+
+export type ChangeUnit = "percent" | "absolute";
+
+export interface ChangeSettings {
+  fromYear: number;
+  toYear: number;
+  unit: ChangeUnit;
+}
+
+export interface MapViewport {
+  zoom: number;
+  // [latitude, longitude]
+  center: [number, number];
+}
+
+// breaks[i] is the lower bound of class i + 1; colors has one more entry
+export interface ClassBreaks {
+  breaks: number[];
+  colors: string[];
+  min: number;
+  max: number;
 }
 
 export interface MunicipalityFeature {
@@ -37,5 +311,32 @@ export interface MunicipalityGeoJSON {
 }
 
 export interface ConsumptionByMunicipality {
-  [municipalityName: string]: number;
+  [statcode: string]: number;
+}
+
+// Values drawn in place of the selected metric
+export interface NumericOverlay {
+  kind: "numeric";
+  values: ConsumptionByMunicipality;
+  // legend title and tooltip label
+  title: string;
+  label: string;
+  unit: string;
+  decimals: number;
+  // Classified like a metric on this palette (or the map's chosen one)
+  // instead of on the diverging scale
+  palette?: SequentialPalette;
+}
+
+// A category per municipality, each with its own colour
+export interface CategoryOverlay {
+  kind: "category";
+  values: Record<string, string>;
+  categories: { value: string; label: string; color: string }[];
+  title: string;
+  label: string;
+  // tooltip text next to the category, by statcode
+  details?: Record<string, string>;
 }
+
+export type MapOverlay = NumericOverlay | CategoryOverlay;
@@ -0,0 +1,80 @@
+import type { AverageMethod, AverageSource, GasConsumptionRecord, Metric } from "../types";
+
+export const DEFAULT_AVERAGE_METHOD: AverageMethod = "cbs";
+
+export const AVERAGE_METHODS: { value: AverageMethod; label: string }[] = [
+  { value: "cbs", label: "CBS national figure" },
+  { value: "weighted", label: "Dwelling-weighted" },
+];
+
+const AVERAGE_SOURCE_LABELS: Record<AverageSource, { label: string; short: string }> = {
+  cbs: { label: "CBS national figure", short: "CBS" },
+  weighted: { label: "dwelling-weighted mean of municipalities", short: "weighted" },
+  unweighted: { label: "unweighted mean of municipalities", short: "unweighted" },
+};
+
+export function getAverageSourceLabel(source: AverageSource, short = false): string {
+  const labels = AVERAGE_SOURCE_LABELS[source];
+  return short ? labels.short : labels.label;
+}
+
+// One line naming how the averages of an index were obtained, with the years
+// that fell back to another source, e.g. "CBS national figure; unweighted
+// mean of municipalities in 2018".
+export function describeAverageSources(sources: Map<number, AverageSource>): string {
+  const yearsBySource = new Map<AverageSource, number[]>();
+  for (const [year, source] of sources) {
+    yearsBySource.set(source, [...(yearsBySource.get(source) ?? []), year]);
+  }
+
+  const [primary, ...others] = [...yearsBySource].sort((a, b) => b[1].length - a[1].length);
+  if (!primary) return "";
+  return [
+    getAverageSourceLabel(primary[0]),
+    ...others.map(([source, years]) => `${getAverageSourceLabel(source)} in ${years.join(", ")}`),
+  ].join("; ");
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// Mean of a metric over records, weighted by dwellings when every record with
+// a value has a dwelling count and unweighted otherwise.
+export function meanOfRecords(
+  records: Pick<GasConsumptionRecord, Metric | "dwellings">[],
+  metric: Metric
+): number | null {
+  const present = records.filter((r) => r[metric] !== null && r[metric] !== undefined);
+  if (present.length === 0) return null;
+
+  const weighted = weightedMean(
+    present.map((r) => ({ value: r[metric]!, dwellings: r.dwellings }))
+  );
+  if (weighted !== null) return weighted;
+  return round(present.reduce((sum, r) => sum + r[metric]!, 0) / present.length);
+}
+
+// null unless every value has a dwelling count and there is at least one dwelling
+export function weightedMean(values: { value: number; dwellings?: number }[]): number | null {
+  let sum = 0;
+  let total = 0;
+  for (const { value, dwellings } of values) {
+    if (dwellings === undefined) return null;
+    sum += value * dwellings;
+    total += dwellings;
+  }
+  return total > 0 ? round(sum / total) : null;
+}
+
+// null when any record lacks a dwelling count
+export function getTotalDwellings(
+  records: Pick<GasConsumptionRecord, "dwellings">[]
+): number | null {
+  let total = 0;
+  for (const record of records) {
+    if (record.dwellings === undefined) return null;
+    total += record.dwellings;
+  }
+  return total;
+}
@@ -0,0 +1,201 @@
+import { RD_BU, SEQUENTIAL_PALETTES } from "../data/colorBrewer";
+import type {
+  ClassBreaks,
+  Classification,
+  ClassScale,
+  ClassificationMethod,
+  SequentialPalette,
+} from "../types";
+
+export const MIN_CLASS_COUNT = 3;
+export const MAX_CLASS_COUNT = 9;
+
+export const DEFAULT_CLASSIFICATION: Classification = {
+  method: "quantile",
+  classCount: 5,
+  palette: null,
+  scale: "year",
+};
+
+export const CLASSIFICATION_METHODS: { value: ClassificationMethod; label: string }[] = [
+  { value: "quantile", label: "Quantiles" },
+  { value: "equal_interval", label: "Equal interval" },
+  { value: "jenks", label: "Natural breaks (Jenks)" },
+  { value: "std_dev", label: "Standard deviation" },
+];
+
+export const CLASS_SCALES: { value: ClassScale; label: string }[] = [
+  { value: "year", label: "Selected year" },
+  { value: "all", label: "All years (fixed)" },
+];
+
+export const PALETTES = Object.keys(SEQUENTIAL_PALETTES) as SequentialPalette[];
+
+export const NO_DATA_COLOR = "#ccc";
+
+function quantileBreaks(sorted: number[], classCount: number): number[] {
+  const breaks: number[] = [];
+  for (let i = 1; i < classCount; i++) {
+    breaks.push(sorted[Math.floor((sorted.length * i) / classCount)]);
+  }
+  return breaks;
+}
+
+function equalIntervalBreaks(sorted: number[], classCount: number): number[] {
+  const min = sorted[0];
+  const step = (sorted[sorted.length - 1] - min) / classCount;
+  return Array.from({ length: classCount - 1 }, (_, i) => min + step * (i + 1));
+}
+
+// Classes of one standard deviation, centred on the mean.
+function stdDevBreaks(sorted: number[], classCount: number): number[] {
+  const mean = sorted.reduce((a, b) => a + b, 0) / sorted.length;
+  const sd = Math.sqrt(sorted.reduce((acc, v) => acc + (v - mean) ** 2, 0) / sorted.length);
+  return Array.from({ length: classCount - 1 }, (_, i) => mean + (i + 1 - classCount / 2) * sd);
+}
+
+// Fisher-Jenks optimal breaks, minimising the within-class sum of squared
+// deviations. Runs on the distinct values weighted by their frequency, which
+// keeps it fast on data rounded to whole units.
+function jenksBreaks(sorted: number[], classCount: number): number[] {
+  const values: number[] = [];
+  const weights: number[] = [];
+  for (const value of sorted) {
+    if (values[values.length - 1] === value) {
+      weights[weights.length - 1] += 1;
+    } else {
+      values.push(value);
+      weights.push(1);
+    }
+  }
+
+  const n = values.length;
+  const k = Math.min(classCount, n);
+  const w = [0];
+  const s = [0];
+  const s2 = [0];
+  for (let i = 0; i < n; i++) {
+    w.push(w[i] + weights[i]);
+    s.push(s[i] + weights[i] * values[i]);
+    s2.push(s2[i] + weights[i] * values[i] ** 2);
+  }
+  // Sum of squared deviations of values[from..to]
+  const ssd = (from: number, to: number) => {
+    const count = w[to + 1] - w[from];
+    const sum = s[to + 1] - s[from];
+    return s2[to + 1] - s2[from] - (sum * sum) / count;
+  };
+
+  // cost[c][j]: best cost of splitting values[0..j] into c + 1 classes;
+  // start[c][j]: index where the last of those classes begins.
+  const cost = [Array.from({ length: n }, (_, j) => ssd(0, j))];
+  const start = [new Array<number>(n).fill(0)];
+  for (let c = 1; c < k; c++) {
+    cost.push(new Array<number>(n).fill(Infinity));
+    start.push(new Array<number>(n).fill(0));
+    for (let j = c; j < n; j++) {
+      for (let i = c; i <= j; i++) {
+        const candidate = cost[c - 1][i - 1] + ssd(i, j);
+        if (candidate < cost[c][j]) {
+          cost[c][j] = candidate;
+          start[c][j] = i;
+        }
+      }
+    }
+  }
+
+  const breaks: number[] = [];
+  let end = n - 1;
+  for (let c = k - 1; c > 0; c--) {
+    const first = start[c][end];
+    breaks.unshift(values[first]);
+    end = first - 1;
+  }
+  return breaks;
+}
+
+const BREAK_METHODS: Record<ClassificationMethod, (sorted: number[], classCount: number) => number[]> = {
+  quantile: quantileBreaks,
+  equal_interval: equalIntervalBreaks,
+  jenks: jenksBreaks,
+  std_dev: stdDevBreaks,
+};
+
+export function getPaletteColors(palette: SequentialPalette, classCount: number): string[] {
+  const clamped = Math.min(MAX_CLASS_COUNT, Math.max(MIN_CLASS_COUNT, classCount));
+  return SEQUENTIAL_PALETTES[palette][clamped];
+}
+
+// Computes the class breaks used by both the map style and the legend. Breaks
+// are rounded to the metric's precision; classes that collapse onto the same
+// break (e.g. quantiles of tied values) are merged.
+export function classify(
+  values: number[],
+  { method, classCount }: Classification,
+  palette: SequentialPalette,
+  decimals: number = 0
+): ClassBreaks {
+  const sorted = [...values].sort((a, b) => a - b);
+  if (sorted.length === 0) {
+    return { breaks: [], colors: [NO_DATA_COLOR], min: 0, max: 0 };
+  }
+
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const factor = 10 ** decimals;
+  const breaks = [
+    ...new Set(
+      BREAK_METHODS[method](sorted, classCount).map((b) => Math.round(b * factor) / factor)
+    ),
+  ].filter((b) => b > min && b <= max);
+
+  return { breaks, colors: getPaletteColors(palette, breaks.length + 1), min, max };
+}
+
+// Share of municipalities whose change falls inside the outer breaks; the
+// remaining extremes end up in the first and last class.
+const DIVERGING_COVERAGE = 0.95;
+
+// Symmetric equal-interval classes around zero for change maps, coloured blue
+// for decreases and red for increases. With an odd class count the middle
+// class straddles zero.
+export function classifyDiverging(
+  values: number[],
+  classCount: number,
+  decimals: number = 0
+): ClassBreaks {
+  const sorted = [...values].sort((a, b) => a - b);
+  if (sorted.length === 0) {
+    return { breaks: [], colors: [NO_DATA_COLOR], min: 0, max: 0 };
+  }
+
+  const magnitudes = sorted.map(Math.abs).sort((a, b) => a - b);
+  const extent = magnitudes[Math.floor(DIVERGING_COVERAGE * (magnitudes.length - 1))] || 1;
+  const count = Math.min(MAX_CLASS_COUNT, Math.max(MIN_CLASS_COUNT, classCount));
+  const step = (2 * extent) / count;
+  const factor = 10 ** decimals;
+  const breaks = [
+    ...new Set(
+      Array.from(
+        { length: count - 1 },
+        (_, i) => Math.round((-extent + step * (i + 1)) * factor) / factor
+      )
+    ),
+  ];
+
+  return {
+    breaks,
+    colors: [...RD_BU[Math.max(MIN_CLASS_COUNT, breaks.length + 1)]].reverse(),
+    min: Math.min(sorted[0], -extent),
+    max: Math.max(sorted[sorted.length - 1], extent),
+  };
+}
+
+export function getClassColor(value: number | null | undefined, classes: ClassBreaks): string {
+  if (value === null || value === undefined) {
+    return NO_DATA_COLOR;
+  }
+
+  const index = classes.breaks.findIndex((limit) => value < limit);
+  return classes.colors[index === -1 ? classes.breaks.length : index];
+}
@@ -0,0 +1,96 @@
+import { MUNICIPALITY_ALIASES } from "../data/aliases";
+import type { GasConsumptionData } from "../types";
+import { findMunicipalityBySlug, slugify } from "./dataUtils";
+
+export const MAX_COMPARED = 6;
+
+// One colour per compared municipality, used by the charts, table and map
+export const COMPARE_COLORS = ["#dc2626", "#2563eb", "#16a34a", "#9333ea", "#ea580c", "#0891b2"];
+
+const STORAGE_KEY = "compare-municipalities";
+
+export interface ParsedComparison {
+  municipalities: string[];
+  // slugs in the URL that did not match a municipality
+  unknown: string[];
+}
+
+const DISAMBIGUATION_SUFFIX = / \(gemeente\)$/;
+
+// Short slug of a municipality in compare links. CBS adds " (gemeente)" to
+// names it shares with another region; those link by their common name
+// ("den-haag") when there is one, else by the name without the suffix.
+export function getCompareSlug(municipality: string): string {
+  if (!DISAMBIGUATION_SUFFIX.test(municipality)) return slugify(municipality);
+  const common = MUNICIPALITY_ALIASES[municipality]?.[0];
+  return slugify(common ?? municipality.replace(DISAMBIGUATION_SUFFIX, ""));
+}
+
+// Every slug a municipality is found by: its CBS name with and without the
+// suffix and its aliases
+function getSlugLookup(data: GasConsumptionData): Map<string, string> {
+  const lookup = new Map<string, string>();
+  for (const name of new Set(data.data.map((r) => r.municipality))) {
+    const names = [
+      name,
+      name.replace(DISAMBIGUATION_SUFFIX, ""),
+      ...(MUNICIPALITY_ALIASES[name] ?? []),
+    ];
+    for (const slug of names.map(slugify)) {
+      if (!lookup.has(slug)) lookup.set(slug, name);
+    }
+  }
+  return lookup;
+}
+
+// Reads ?m=amsterdam,utrecht (slugs or GM codes) into municipality names,
+// dropping duplicates and anything past MAX_COMPARED.
+export function parseCompareParam(data: GasConsumptionData, param: string | null): ParsedComparison {
+  const municipalities: string[] = [];
+  const unknown: string[] = [];
+  const lookup = getSlugLookup(data);
+
+  for (const slug of (param ?? "").split(",").map((s) => s.trim()).filter(Boolean)) {
+    const name = findMunicipalityBySlug(data, slug) ?? lookup.get(slug.toLowerCase()) ?? null;
+    if (!name) {
+      unknown.push(slug);
+    } else if (!municipalities.includes(name) && municipalities.length < MAX_COMPARED) {
+      municipalities.push(name);
+    }
+  }
+
+  return { municipalities, unknown };
+}
+
+export function getCompareParam(municipalities: string[]): string {
+  return municipalities.map(getCompareSlug).join(",");
+}
+
+export function getComparePath(municipalities: string[]): string {
+  return `/compare?m=${getCompareParam(municipalities)}`;
+}
+
+// Appends a municipality, dropping the oldest one when the comparison is full.
+export function addToComparison(municipalities: string[], municipality: string): string[] {
+  if (municipalities.includes(municipality)) return municipalities;
+  return [...municipalities, municipality].slice(-MAX_COMPARED);
+}
+
+// The last comparison is remembered so "add to compare" elsewhere in the app
+// extends it instead of starting over.
+export function getStoredComparison(): string[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored.filter((name) => typeof name === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storeComparison(municipalities: string[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(municipalities));
+  } catch {
+    // Storage can be unavailable (private mode); comparing still works via the URL
+  }
+}
@@ -0,0 +1,140 @@
+import type {
+  ConsumptionByMunicipality,
+  CovariateDefinition,
+  CovariateFile,
+  CovariateRecord,
+  Covariates,
+  SequentialPalette,
+} from "../types";
+import type { CsvRow } from "./csvUtils";
+
+// Covariates share one palette unless the map's classification picks another
+export const COVARIATE_PALETTE: SequentialPalette = "YlGnBu";
+
+// Column names accepted for the municipality code in CSV files
+const STATCODE_COLUMNS = ["statcode", "gm_code", "gemeentecode"];
+
+// Values CBS uses for a missing figure
+const MISSING_VALUES = new Set(["", ".", "-"]);
+
+// Turns CSV rows into covariate records. Numbers may use a decimal comma;
+// anything else that is not a number is kept as text for validation to report.
+export function csvToCovariateRecords(rows: CsvRow[]): CovariateFile["records"] {
+  return rows.map((row) => {
+    const record: Record<string, number | string | null> = {};
+    for (const [column, raw] of Object.entries(row)) {
+      const text = raw.trim();
+      const name = column.trim();
+      if (STATCODE_COLUMNS.includes(name.toLowerCase())) {
+        record.statcode = text.toUpperCase();
+      } else if (MISSING_VALUES.has(text)) {
+        record[name] = null;
+      } else {
+        const value = Number(text.replace(",", "."));
+        record[name] = Number.isFinite(value) ? value : text;
+      }
+    }
+    return record as CovariateFile["records"][number];
+  });
+}
+
+function toLabel(key: string): string {
+  const words = key.replace(/_/g, " ").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// Merges covariate files into one set. Columns without metadata get their
+// name as label and the file as source; a later file's metadata and values
+// replace an earlier one's.
+export function toCovariates(files: { file: CovariateFile; source: string }[]): Covariates {
+  const definitions = new Map<string, CovariateDefinition>();
+  const records = new Map<string, CovariateRecord>();
+
+  for (const { file, source } of files) {
+    const described = file.metadata?.covariates ?? {};
+    const integral = new Map<string, boolean>();
+
+    for (const { statcode, year, ...columns } of file.records) {
+      const key = `${statcode}|${year}`;
+      const record = records.get(key) ?? { statcode, year, values: {} };
+      for (const [column, value] of Object.entries(columns)) {
+        if (typeof value !== "number") continue;
+        record.values[column] = value;
+        integral.set(column, (integral.get(column) ?? true) && Number.isInteger(value));
+      }
+      records.set(key, record);
+    }
+
+    for (const [column, isIntegral] of integral) {
+      const metadata = described[column] ?? {};
+      definitions.set(column, {
+        key: column,
+        label: metadata.label ?? toLabel(column),
+        unit: metadata.unit ?? "",
+        description: metadata.description ?? "",
+        source: metadata.source ?? file.metadata?.source ?? source,
+        decimals: metadata.decimals ?? (isIntegral ? 0 : 1),
+      });
+    }
+  }
+
+  return {
+    definitions: [...definitions.values()].sort((a, b) => a.label.localeCompare(b.label)),
+    records: [...records.values()],
+  };
+}
+
+export function getCovariateDefinition(
+  covariates: Covariates,
+  key: string
+): CovariateDefinition | undefined {
+  return covariates.definitions.find((d) => d.key === key);
+}
+
+export function getCovariateYears(covariates: Covariates, key: string): number[] {
+  const years = new Set(covariates.records.filter((r) => key in r.values).map((r) => r.year));
+  return [...years].sort((a, b) => a - b);
+}
+
+// Covariates are often published for fewer years than consumption: the
+// latest year up to the requested one, else the first year there is.
+export function getCovariateYear(covariates: Covariates, key: string, year: number): number | null {
+  const years = getCovariateYears(covariates, key);
+  return years.filter((y) => y <= year).at(-1) ?? years[0] ?? null;
+}
+
+export function getCovariateValues(
+  covariates: Covariates,
+  key: string,
+  year: number
+): ConsumptionByMunicipality {
+  const values: ConsumptionByMunicipality = {};
+  for (const record of covariates.records) {
+    const value = record.values[key];
+    if (record.year === year && value !== undefined) values[record.statcode] = value;
+  }
+  return values;
+}
+
+// Every covariate of a municipality in the given year or, failing that, the
+// latest year before it; by default its latest values
+export function getMunicipalityCovariates(
+  covariates: Covariates,
+  statcode: string,
+  year = Infinity
+): { definition: CovariateDefinition; year: number; value: number }[] {
+  const records = covariates.records
+    .filter((r) => r.statcode === statcode && r.year <= year)
+    .sort((a, b) => b.year - a.year);
+
+  return covariates.definitions.flatMap((definition) => {
+    const record = records.find((r) => definition.key in r.values);
+    return record ? [{ definition, year: record.year, value: record.values[definition.key] }] : [];
+  });
+}
+
+export function formatCovariateValue(definition: CovariateDefinition, value: number): string {
+  return `${value.toLocaleString(undefined, {
+    maximumFractionDigits: definition.decimals,
+  })} ${definition.unit}`.trim();
+}
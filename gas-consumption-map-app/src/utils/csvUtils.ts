@@ -0,0 +1,60 @@
+export type CsvRow = Record<string, string>;
+
+// Splits a single CSV line into fields, honouring double-quoted fields that
+// contain commas (e.g. "Nuenen, Gerwen en Nederwetten") and escaped quotes.
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+export function parseCsv(text: string): CsvRow[] {
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "");
+
+  if (lines.length === 0) return [];
+
+  const header = parseCsvLine(lines[0]);
+
+  return lines.slice(1).map((line, index) => {
+    const fields = parseCsvLine(line);
+    if (fields.length !== header.length) {
+      throw new Error(
+        `CSV line ${index + 2} has ${fields.length} fields, expected ${header.length}`
+      );
+    }
+
+    const row: CsvRow = {};
+    header.forEach((column, i) => {
+      row[column] = fields[i];
+    });
+    return row;
+  });
+}
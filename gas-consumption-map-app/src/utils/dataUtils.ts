@@ -1,4 +1,105 @@
-import type { GasConsumptionData, ConsumptionByMunicipality } from "../types";
+import type {
+  CovariateFile,
+  Covariates,
+  GasConsumptionData,
+  GasConsumptionRecord,
+  HeatingDegreeDays,
+  HousingType,
+  Metric,
+  ModelResult,
+  RegionLevel,
+  SequentialPalette,
+  ShapResult,
+} from "../types";
+import {
+  DataFetchError,
+  DataValidationError,
+  parseCovariateManifest,
+  parseCovariates,
+  parseGasConsumptionData,
+  parseHeatingDegreeDays,
+  parseModelManifest,
+  parseModelPredictions,
+  parseMunicipalityGeoJSON,
+  parseShapValues,
+} from "./validation";
+import { toModelResults } from "./modelUtils";
+import { toShapResult } from "./shapUtils";
+import { csvToCovariateRecords, toCovariates } from "./covariateUtils";
+import { parseCsv } from "./csvUtils";
+
+export const DEFAULT_HOUSING_TYPE: HousingType = "total";
+
+export const HOUSING_TYPES: { value: HousingType; label: string }[] = [
+  { value: "total", label: "All dwellings" },
+  { value: "apartment", label: "Apartment" },
+  { value: "terraced", label: "Terraced house" },
+  { value: "corner", label: "Corner house" },
+  { value: "semi_detached", label: "Semi-detached house" },
+  { value: "detached", label: "Detached house" },
+  { value: "owner_occupied", label: "Owner-occupied" },
+  { value: "rental", label: "Rental" },
+];
+
+export function getHousingTypeLabel(housingType: HousingType): string {
+  return HOUSING_TYPES.find((t) => t.value === housingType)?.label ?? housingType;
+}
+
+export interface MetricDefinition {
+  value: Metric;
+  label: string;
+  unit: string;
+  unitLabel: string;
+  axisPadding: number;
+  // decimals shown for class breaks
+  decimals: number;
+  palette: SequentialPalette;
+}
+
+export const DEFAULT_METRIC: Metric = "gas_consumption";
+
+export const METRICS: MetricDefinition[] = [
+  {
+    value: "gas_consumption",
+    label: "Gas consumption",
+    unit: "m³",
+    unitLabel: "m³/dwelling/year",
+    axisPadding: 100,
+    decimals: 0,
+    palette: "Reds",
+  },
+  {
+    value: "electricity_delivery",
+    label: "Electricity delivery",
+    unit: "kWh",
+    unitLabel: "kWh/dwelling/year",
+    axisPadding: 100,
+    decimals: 0,
+    palette: "Blues",
+  },
+  {
+    value: "net_electricity_delivery",
+    label: "Net electricity delivery",
+    unit: "kWh",
+    unitLabel: "kWh/dwelling/year",
+    axisPadding: 100,
+    decimals: 0,
+    palette: "Purples",
+  },
+  {
+    value: "district_heating_share",
+    label: "District heating share",
+    unit: "%",
+    unitLabel: "% of dwellings",
+    axisPadding: 2,
+    decimals: 1,
+    palette: "Greens",
+  },
+];
+
+export function getMetricDefinition(metric: Metric): MetricDefinition {
+  return METRICS.find((m) => m.value === metric) ?? METRICS[0];
+}
 
 export function slugify(name: string): string {
   return name
@@ -8,10 +109,19 @@ export function slugify(name: string): string {
     .replace(/^-|-$/g, "");
 }
 
+const STATCODE_PATTERN = /^GM\d{4}$/i;
+
+// Detail routes use the CBS statcode; slugs of the municipality name are still
+// accepted so older links and municipalities without geometry keep working.
 export function findMunicipalityBySlug(
   data: GasConsumptionData,
   slug: string
 ): string | null {
+  if (STATCODE_PATTERN.test(slug)) {
+    const statcode = slug.toUpperCase();
+    return data.data.find((r) => r.statcode === statcode)?.municipality ?? null;
+  }
+
   const municipalities = new Set(data.data.map((r) => r.municipality));
   for (const name of municipalities) {
     if (slugify(name) === slug) {
@@ -21,48 +131,185 @@ export function findMunicipalityBySlug(
   return null;
 }
 
+export function getMunicipalityPath(municipality: string, statcode: string | null): string {
+  return `/municipality/${statcode ?? slugify(municipality)}`;
+}
+
+// Optional files resolve to null when absent. The dev server answers missing
+// files with the app's index.html, so a non-JSON response counts as absent too,
+// and so does a network failure: offline, only precached files can be served.
+async function fetchJson(url: string, optional: boolean = false): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    if (optional) return null;
+    throw new DataFetchError(url, null);
+  }
+  if (
+    optional &&
+    (response.status === 404 || !response.headers.get("content-type")?.includes("json"))
+  ) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new DataFetchError(url, response.status);
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    throw new DataValidationError(url, [{ path: "", message: "is not valid JSON" }]);
+  }
+}
+
 export async function loadGasConsumptionData(): Promise<GasConsumptionData> {
-  const response = await fetch("/gas_consumption.json");
-  return response.json();
+  const url = "/gas_consumption.json";
+  return parseGasConsumptionData(await fetchJson(url), url);
+}
+
+export async function loadHeatingDegreeDays(): Promise<HeatingDegreeDays | null> {
+  const url = "/heating_degree_days.json";
+  const json = await fetchJson(url, true);
+  return json === null ? null : parseHeatingDegreeDays(json, url);
+}
+
+// Dissolved province and landsdeel boundaries (npm run build:regions), or any
+// provided file with CBS region codes as statcode; optional like degree days.
+export async function loadRegionGeoJSON(
+  level: RegionLevel
+): Promise<GeoJSON.FeatureCollection | null> {
+  const url = level === "province" ? "/provinces.geojson" : "/landsdelen.geojson";
+  const json = await fetchJson(url, true);
+  return json === null ? null : (parseMunicipalityGeoJSON(json, url) as GeoJSON.FeatureCollection);
+}
+
+const MODEL_MANIFEST_URL = "/models/index.json";
+
+export interface ModelFiles {
+  results: ModelResult[];
+  explanations: ShapResult[];
+}
+
+// Prediction files have a list of predictions, SHAP files a list of explanations
+function parseModelFile(json: unknown, source: string): ModelFiles {
+  if (typeof json === "object" && json !== null && "explanations" in json) {
+    return { results: [], explanations: [toShapResult(parseShapValues(json, source), source)] };
+  }
+  return { results: toModelResults(parseModelPredictions(json, source), source), explanations: [] };
+}
+
+// Prediction and SHAP files listed in public/models/index.json as
+// {"files": [...]}, relative to that directory. Optional: without a manifest
+// there are no models, and a file that fails only adds to the errors.
+export async function loadModelFiles(): Promise<ModelFiles & { errors: Error[] }> {
+  const manifest = await fetchJson(MODEL_MANIFEST_URL, true);
+  if (manifest === null) return { results: [], explanations: [], errors: [] };
+
+  const urls = parseModelManifest(manifest, MODEL_MANIFEST_URL).map((file) =>
+    file.startsWith("/") ? file : `/models/${file}`
+  );
+  const loaded = await Promise.allSettled(
+    urls.map(async (url) => parseModelFile(await fetchJson(url), url))
+  );
+  const files = loaded.flatMap((r) => (r.status === "fulfilled" ? [r.value] : []));
+  return {
+    results: files.flatMap((f) => f.results),
+    explanations: files.flatMap((f) => f.explanations),
+    errors: loaded.flatMap((r) => (r.status === "rejected" ? [r.reason as Error] : [])),
+  };
+}
+
+// A prediction or SHAP file picked by the user
+export async function readModelFile(file: File): Promise<ModelFiles> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new DataValidationError(file.name, [{ path: "", message: "is not valid JSON" }]);
+  }
+  return parseModelFile(json, file.name);
+}
+
+async function fetchText(url: string): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new DataFetchError(url, null);
+  }
+  if (!response.ok) {
+    throw new DataFetchError(url, response.status);
+  }
+  return response.text();
+}
+
+const COVARIATE_MANIFEST_URL = "/covariates/index.json";
+
+async function loadCovariateFile(
+  url: string,
+  metadata: CovariateFile["metadata"]
+): Promise<CovariateFile> {
+  if (!url.toLowerCase().endsWith(".csv")) {
+    const file = parseCovariates(await fetchJson(url), url);
+    return metadata ? { ...file, metadata: { ...file.metadata, ...metadata } } : file;
+  }
+
+  let records: CovariateFile["records"];
+  try {
+    records = csvToCovariateRecords(parseCsv(await fetchText(url)));
+  } catch (error) {
+    if (error instanceof DataFetchError) throw error;
+    throw new DataValidationError(url, [{ path: "", message: (error as Error).message }]);
+  }
+  return parseCovariates({ metadata, records }, url);
+}
+
+// Covariate files (CSV or JSON) listed in public/covariates/index.json,
+// relative to that directory. Optional like the degree-day table.
+export async function loadCovariates(): Promise<Covariates | null> {
+  const manifest = await fetchJson(COVARIATE_MANIFEST_URL, true);
+  if (manifest === null) return null;
+
+  const entries = parseCovariateManifest(manifest, COVARIATE_MANIFEST_URL);
+  const files = await Promise.all(
+    entries.map(async ({ file, metadata }) => {
+      const url = file.startsWith("/") ? file : `/covariates/${file}`;
+      return { file: await loadCovariateFile(url, metadata), source: url };
+    })
+  );
+  return toCovariates(files);
 }
 
 export async function loadMunicipalityGeoJSON(): Promise<GeoJSON.FeatureCollection> {
-  const response = await fetch("/gemeenten.geojson");
-  return response.json();
+  const url = "/gemeenten.geojson";
+  return parseMunicipalityGeoJSON(await fetchJson(url), url) as GeoJSON.FeatureCollection;
 }
 
-export function getConsumptionByYear(
+export function filterByHousingType(
   data: GasConsumptionData,
-  year: number
-): ConsumptionByMunicipality {
-  const result: ConsumptionByMunicipality = {};
+  housingType: HousingType = DEFAULT_HOUSING_TYPE
+): GasConsumptionRecord[] {
+  return data.data.filter((r) => r.housing_type === housingType);
+}
 
-  for (const record of data.data) {
-    if (record.year === year) {
-      const normalizedName = normalizeMunicipalityName(record.municipality);
-      result[normalizedName] = record.gas_consumption;
+export function getRecordsWithMetric(
+  data: GasConsumptionData,
+  housingType: HousingType = DEFAULT_HOUSING_TYPE,
+  metric: Metric = DEFAULT_METRIC
+): (GasConsumptionRecord & { value: number })[] {
+  const result: (GasConsumptionRecord & { value: number })[] = [];
+
+  for (const record of filterByHousingType(data, housingType)) {
+    const value = record[metric];
+    if (value != null) {
+      result.push({ ...record, value });
     }
   }
 
   return result;
 }
 
-export function normalizeMunicipalityName(name: string): string {
-  return name
-    .replace(" (gemeente)", "")
-    .replace(" (Utrecht)", "")
-    .replace(" (Groningen)", "")
-    .replace(" (Limburg)", "")
-    .replace(" (Friesland)", "")
-    .replace(" (Fryslân)", "")
-    .replace(" (Noord-Brabant)", "")
-    .replace(" (Gelderland)", "")
-    .replace(" (Noord-Holland)", "")
-    .replace(" (Zuid-Holland)", "")
-    .replace(" (Overijssel)", "")
-    .trim();
-}
-
 export function getAvailableYears(data: GasConsumptionData): number[] {
   const years = new Set<number>();
   for (const record of data.data) {
@@ -71,32 +318,125 @@ export function getAvailableYears(data: GasConsumptionData): number[] {
   return Array.from(years).sort((a, b) => b - a);
 }
 
-export function getConsumptionRange(
-  data: GasConsumptionData
-): { min: number; max: number } {
-  let min = Infinity;
-  let max = -Infinity;
+export interface FeatureReference {
+  statcode: string;
+  statnaam: string;
+}
+
+export interface MissingYears {
+  municipality: string;
+  statcode: string | null;
+  years: number[];
+}
 
-  for (const record of data.data) {
-    if (record.gas_consumption < min) min = record.gas_consumption;
-    if (record.gas_consumption > max) max = record.gas_consumption;
+export interface YearOverYearOutlier {
+  record: GasConsumptionRecord;
+  previousValue: number;
+  value: number;
+  changePercent: number;
+}
+
+export function getFeaturesWithoutRecords(
+  data: GasConsumptionData,
+  geo: GeoJSON.FeatureCollection,
+  year: number,
+  housingType: HousingType = DEFAULT_HOUSING_TYPE
+): FeatureReference[] {
+  const joined = new Set(
+    data.data
+      .filter((r) => r.year === year && r.housing_type === housingType)
+      .map((r) => r.statcode)
+  );
+
+  return geo.features
+    .map((f) => ({ statcode: f.properties?.statcode, statnaam: f.properties?.statnaam }))
+    .filter((f) => !joined.has(f.statcode))
+    .sort((a, b) => a.statnaam.localeCompare(b.statnaam));
+}
+
+export function getRecordsWithoutGeometry(
+  data: GasConsumptionData,
+  geo: GeoJSON.FeatureCollection,
+  year: number,
+  housingType: HousingType = DEFAULT_HOUSING_TYPE
+): GasConsumptionRecord[] {
+  const statcodes = new Set(geo.features.map((f) => f.properties?.statcode));
+
+  return data.data.filter(
+    (r) =>
+      r.year === year &&
+      r.housing_type === housingType &&
+      (!r.statcode || !statcodes.has(r.statcode))
+  );
+}
+
+// Municipalities that still exist (they have a statcode) should cover every
+// year; dissolved ones only the years between their first and last record.
+export function getMissingYears(
+  data: GasConsumptionData,
+  housingType: HousingType = DEFAULT_HOUSING_TYPE
+): MissingYears[] {
+  const allYears = getAvailableYears(data).sort((a, b) => a - b);
+  const byMunicipality = new Map<string, { statcode: string | null; years: Set<number> }>();
+
+  for (const record of filterByHousingType(data, housingType)) {
+    const entry = byMunicipality.get(record.municipality) ?? {
+      statcode: record.statcode,
+      years: new Set<number>(),
+    };
+    entry.statcode ??= record.statcode;
+    entry.years.add(record.year);
+    byMunicipality.set(record.municipality, entry);
   }
 
-  return { min, max };
+  const result: MissingYears[] = [];
+  for (const [municipality, { statcode, years }] of byMunicipality) {
+    const first = statcode ? allYears[0] : Math.min(...years);
+    const last = statcode ? allYears[allYears.length - 1] : Math.max(...years);
+    const missing = allYears.filter((y) => y >= first && y <= last && !years.has(y));
+    if (missing.length > 0) {
+      result.push({ municipality, statcode, years: missing });
+    }
+  }
+
+  return result.sort((a, b) => a.municipality.localeCompare(b.municipality));
+}
+
+export function getImputedRecords(
+  data: GasConsumptionData,
+  year: number,
+  housingType: HousingType = DEFAULT_HOUSING_TYPE
+): GasConsumptionRecord[] {
+  return data.data.filter(
+    (r) => r.year === year && r.housing_type === housingType && r.imputed_from
+  );
 }
 
-export function getColorForConsumption(
-  value: number
-): string {
-  if (value === null || value === undefined) {
-    return "#ccc";
+// Flags records whose value changed by more than thresholdPercent compared
+// with the same municipality in the previous year.
+export function getYearOverYearOutliers(
+  data: GasConsumptionData,
+  year: number,
+  thresholdPercent: number,
+  housingType: HousingType = DEFAULT_HOUSING_TYPE,
+  metric: Metric = DEFAULT_METRIC
+): YearOverYearOutlier[] {
+  const previous = new Map<string, number>();
+  for (const record of getRecordsWithMetric(data, housingType, metric)) {
+    if (record.year === year - 1) previous.set(record.municipality, record.value);
+  }
+
+  const result: YearOverYearOutlier[] = [];
+  for (const record of getRecordsWithMetric(data, housingType, metric)) {
+    const previousValue = previous.get(record.municipality);
+    if (record.year !== year || !previousValue) continue;
+
+    const changePercent = ((record.value - previousValue) / previousValue) * 100;
+    if (Math.abs(changePercent) > thresholdPercent) {
+      const { value, ...rest } = record;
+      result.push({ record: rest, previousValue, value, changePercent });
+    }
   }
 
-  if (value < 600) return '#fee5d9'
-  if (value < 800) return '#fcbba1'
-  if (value < 1000) return '#fc9272'
-  if (value < 1200) return '#fb6a4a'
-  if (value < 1400) return '#ef3b2c'
-  if (value < 1600) return '#cb181d'
-  return '#99000d'
+  return result.sort((a, b) => Math.abs(b.changePercent) - Math.abs(a.changePercent));
 }
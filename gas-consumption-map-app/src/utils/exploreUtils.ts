@@ -0,0 +1,139 @@
+import { PAIRED, SEQUENTIAL_PALETTES, SET1_OTHER } from "../data/colorBrewer";
+import { PROVINCES } from "../data/provinces";
+import { getProvince } from "./regionUtils";
+import type { ConsumptionByMunicipality, Covariates } from "../types";
+import type { IndexedRecord } from "./indexUtils";
+
+export interface ScatterPoint {
+  statcode: string;
+  municipality: string;
+  x: number;
+  y: number;
+  // value of the colour group, see getProvinceGroups and getUrbanityGroups
+  group: string;
+}
+
+export interface ColorGroup {
+  value: string;
+  label: string;
+  color: string;
+}
+
+export interface OlsFit {
+  slope: number;
+  intercept: number;
+  r2: number;
+  n: number;
+}
+
+const NO_GROUP = "__none__";
+
+// Column names under which the CBS urbanity class (stedelijkheid) is recognised
+const URBANITY_KEYS = ["urbanity", "stedelijkheid"];
+
+// CBS urbanity classes by address density, 1 the most urban
+const URBANITY_CLASSES = [
+  "Very strongly urban",
+  "Strongly urban",
+  "Moderately urban",
+  "Hardly urban",
+  "Not urban",
+];
+
+// Municipalities with a value on both axes
+export function joinScatterPoints(
+  records: IndexedRecord[],
+  xValues: ConsumptionByMunicipality,
+  getGroup: (point: { statcode: string; municipality: string }) => string
+): ScatterPoint[] {
+  return records.flatMap(({ statcode, municipality, value }) => {
+    const x = statcode ? xValues[statcode] : undefined;
+    if (!statcode || x === undefined) return [];
+    return [{ statcode, municipality, x, y: value, group: getGroup({ statcode, municipality }) }];
+  });
+}
+
+// Ordinary least squares of y on x; null for fewer than three points or no
+// spread in x.
+export function fitOls(points: { x: number; y: number }[]): OlsFit | null {
+  const n = points.length;
+  if (n < 3) return null;
+
+  const meanX = points.reduce((acc, p) => acc + p.x, 0) / n;
+  const meanY = points.reduce((acc, p) => acc + p.y, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (const { x, y } of points) {
+    sxx += (x - meanX) ** 2;
+    sxy += (x - meanX) * (y - meanY);
+    syy += (y - meanY) ** 2;
+  }
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  return {
+    slope,
+    intercept: meanY - slope * meanX,
+    r2: syy === 0 ? 1 : (sxy * sxy) / (sxx * syy),
+    n,
+  };
+}
+
+// Axis domain around the values, widened to round numbers so the ticks are
+// readable. The chart uses fixed domains so brushed pixels map back to values.
+export function getNiceDomain(values: number[]): [number, number] {
+  if (values.length === 0) return [0, 1];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || Math.abs(max) || 1;
+  // a little room so points are not drawn on the axes
+  const padding = span * 0.02;
+  const step = 10 ** Math.floor(Math.log10(span)) / 10;
+  return [Math.floor((min - padding) / step) * step, Math.ceil((max + padding) / step) * step];
+}
+
+export function getPointsInRange(
+  points: ScatterPoint[],
+  [x0, x1]: [number, number],
+  [y0, y1]: [number, number]
+): string[] {
+  return points
+    .filter(({ x, y }) => x >= x0 && x <= x1 && y >= y0 && y <= y1)
+    .map((p) => p.statcode);
+}
+
+export function getProvinceGroups(): ColorGroup[] {
+  return [
+    ...PROVINCES.map(({ name }, i) => ({ value: name, label: name, color: PAIRED[i] })),
+    { value: NO_GROUP, label: "Dissolved municipality", color: SET1_OTHER },
+  ];
+}
+
+export function getProvinceGroup({ municipality }: { municipality: string }): string {
+  return getProvince(municipality)?.name ?? NO_GROUP;
+}
+
+export function findUrbanityCovariate(covariates: Covariates | null): string | undefined {
+  return covariates?.definitions.find((d) => URBANITY_KEYS.includes(d.key.toLowerCase()))?.key;
+}
+
+// Most urban darkest
+export function getUrbanityGroups(): ColorGroup[] {
+  const colors = [...SEQUENTIAL_PALETTES.YlGnBu[URBANITY_CLASSES.length]].reverse();
+  return [
+    ...URBANITY_CLASSES.map((label, i) => ({ value: String(i + 1), label, color: colors[i] })),
+    { value: NO_GROUP, label: "Unknown", color: SET1_OTHER },
+  ];
+}
+
+export function getUrbanityGroup(
+  urbanity: ConsumptionByMunicipality
+): (point: { statcode: string }) => string {
+  return ({ statcode }) => {
+    const value = urbanity[statcode];
+    return value !== undefined && value >= 1 && value <= URBANITY_CLASSES.length
+      ? String(Math.round(value))
+      : NO_GROUP;
+  };
+}
@@ -0,0 +1,218 @@
+import { GIFEncoder, applyPalette, quantize } from "gifenc";
+import type { ClassBreaks, ConsumptionByMunicipality } from "../types";
+import { NO_DATA_COLOR, getClassColor } from "./classificationUtils";
+
+export type AnimationFormat = "gif" | "webm";
+
+export interface AnimationFrame {
+  year: number;
+  values: ConsumptionByMunicipality;
+}
+
+export interface AnimationOptions {
+  geoData: GeoJSON.FeatureCollection;
+  frames: AnimationFrame[];
+  classes: ClassBreaks;
+  title: string;
+  decimals: number;
+  // milliseconds each year stays on screen
+  frameDuration: number;
+}
+
+const WIDTH = 640;
+const MARGIN = 20;
+const HEADER_HEIGHT = 56;
+const LEGEND_WIDTH = 150;
+
+type Ring = GeoJSON.Position[];
+
+function getRings(geometry: GeoJSON.Geometry): Ring[] {
+  if (geometry.type === "Polygon") return geometry.coordinates;
+  if (geometry.type === "MultiPolygon") return geometry.coordinates.flat();
+  return [];
+}
+
+// Web Mercator, so exported frames have the same shape as the live map.
+function mercatorY(latitude: number): number {
+  return Math.log(Math.tan(Math.PI / 4 + (latitude * Math.PI) / 360));
+}
+
+function createProjection(geoData: GeoJSON.FeatureCollection) {
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  for (const feature of geoData.features) {
+    for (const ring of getRings(feature.geometry)) {
+      for (const [lng, lat] of ring) {
+        const y = mercatorY(lat);
+        minX = Math.min(minX, lng);
+        maxX = Math.max(maxX, lng);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+
+  const mapWidth = WIDTH - LEGEND_WIDTH - 2 * MARGIN;
+  const scale = mapWidth / ((maxX - minX) * (Math.PI / 180));
+  const mapHeight = Math.ceil((maxY - minY) * scale);
+
+  return {
+    height: HEADER_HEIGHT + mapHeight + MARGIN,
+    project: ([lng, lat]: GeoJSON.Position): [number, number] => [
+      MARGIN + (lng - minX) * (Math.PI / 180) * scale,
+      HEADER_HEIGHT + (maxY - mercatorY(lat)) * scale,
+    ],
+  };
+}
+
+function drawFrame(
+  ctx: CanvasRenderingContext2D,
+  options: AnimationOptions,
+  projection: ReturnType<typeof createProjection>,
+  frame: AnimationFrame
+) {
+  const { geoData, classes, title, decimals } = options;
+
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, WIDTH, projection.height);
+
+  ctx.strokeStyle = "#666";
+  ctx.lineWidth = 0.5;
+  for (const feature of geoData.features) {
+    ctx.beginPath();
+    for (const ring of getRings(feature.geometry)) {
+      ring.forEach((position, i) => {
+        const [x, y] = projection.project(position);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+      ctx.closePath();
+    }
+    ctx.fillStyle = getClassColor(frame.values[feature.properties?.statcode], classes);
+    ctx.fill("evenodd");
+    ctx.stroke();
+  }
+
+  ctx.fillStyle = "#1e293b";
+  ctx.font = "bold 28px sans-serif";
+  ctx.fillText(String(frame.year), MARGIN, 36);
+  ctx.font = "14px sans-serif";
+  ctx.fillText(title, MARGIN + 90, 32);
+
+  // Legend, same classes and labels as the on-screen legend
+  const format = (value: number) =>
+    value.toLocaleString(undefined, { maximumFractionDigits: decimals });
+  const bounds = [classes.min, ...classes.breaks, classes.max];
+  const items = classes.colors
+    .slice(0, classes.breaks.length + 1)
+    .map((color, i) => ({ color, label: `${format(bounds[i])} – ${format(bounds[i + 1])}` }));
+  items.push({ color: NO_DATA_COLOR, label: "No data" });
+
+  ctx.font = "12px sans-serif";
+  const legendX = WIDTH - LEGEND_WIDTH;
+  items.forEach((item, i) => {
+    const y = HEADER_HEIGHT + i * 20;
+    ctx.fillStyle = item.color;
+    ctx.fillRect(legendX, y, 18, 13);
+    ctx.strokeStyle = "#9ca3af";
+    ctx.strokeRect(legendX, y, 18, 13);
+    ctx.fillStyle = "#475569";
+    ctx.fillText(item.label, legendX + 26, y + 11);
+  });
+}
+
+async function encodeGif(
+  canvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D,
+  render: (frame: AnimationFrame) => void,
+  options: AnimationOptions
+): Promise<Blob> {
+  const gif = GIFEncoder();
+  for (const frame of options.frames) {
+    render(frame);
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const palette = quantize(data, 256);
+    gif.writeFrame(applyPalette(data, palette), canvas.width, canvas.height, {
+      palette,
+      delay: options.frameDuration,
+    });
+    // Yield between frames so the page stays responsive
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  gif.finish();
+  return new Blob([gif.bytes()], { type: "image/gif" });
+}
+
+// MediaRecorder captures in real time, so recording takes as long as the
+// animation itself.
+async function encodeWebm(
+  canvas: HTMLCanvasElement,
+  render: (frame: AnimationFrame) => void,
+  options: AnimationOptions
+): Promise<Blob> {
+  if (typeof MediaRecorder === "undefined" || !MediaRecorder.isTypeSupported("video/webm")) {
+    throw new Error("This browser cannot record WebM video; export a GIF instead");
+  }
+
+  render(options.frames[0]);
+  const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType: "video/webm" });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => chunks.push(event.data);
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start();
+  for (const frame of options.frames) {
+    render(frame);
+    await new Promise((resolve) => setTimeout(resolve, options.frameDuration));
+  }
+  recorder.stop();
+  await stopped;
+
+  return new Blob(chunks, { type: "video/webm" });
+}
+
+export async function exportAnimation(
+  format: AnimationFormat,
+  options: AnimationOptions
+): Promise<Blob> {
+  if (options.frames.length === 0) {
+    throw new Error("There are no years to export");
+  }
+
+  const projection = createProjection(options.geoData);
+  const canvas = document.createElement("canvas");
+  canvas.width = WIDTH;
+  canvas.height = projection.height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: format === "gif" });
+  if (!ctx) {
+    throw new Error("Canvas rendering is not available in this browser");
+  }
+
+  const render = (frame: AnimationFrame) => drawFrame(ctx, options, projection, frame);
+  return format === "gif"
+    ? encodeGif(canvas, ctx, render, options)
+    : encodeWebm(canvas, render, options);
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function escapeCsvCell(cell: string | number | null): string {
+  if (cell === null) return "";
+  const text = String(cell);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: (string | number | null)[][]): string {
+  return rows.map((row) => row.map(escapeCsvCell).join(",")).join("\n");
+}
@@ -0,0 +1,313 @@
+import type { ForecastModel, Metric } from "../types";
+import { rankByValue, type IndexedRecord, type MetricIndex } from "./indexUtils";
+
+// Forecasts run from the year after the last data year up to and including this one
+export const FORECAST_END_YEAR = 2030;
+
+export const FORECAST_MODELS: { value: ForecastModel; label: string; description: string }[] = [
+  {
+    value: "linear",
+    label: "Linear trend",
+    description: "Least-squares line through each series",
+  },
+  {
+    value: "smoothing",
+    label: "Exponential smoothing",
+    description: "Holt's damped-trend method with smoothing weights fitted per series",
+  },
+  {
+    value: "pooled",
+    label: "Pooled (national)",
+    description: "National trend scaled by the series' recent ratio to the national average",
+  },
+];
+
+// Intervals are two-sided 95% prediction intervals
+export const FORECAST_INTERVAL = "95%";
+
+// 97.5% quantiles of Student's t for 1 to 30 degrees of freedom; beyond that
+// the normal quantile is close enough.
+const T_QUANTILES = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16,
+  2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052,
+  2.048, 2.045, 2.042,
+];
+
+// Years of recent ratios the pooled model averages over
+const POOLED_RATIO_YEARS = 5;
+
+const SMOOTHING_GRID = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+
+// Share of the trend kept per year ahead. Without damping a single sharp year
+// (such as 2022) is extrapolated to zero consumption within a few years.
+const TREND_DAMPING = 0.8;
+
+export interface SeriesPoint {
+  year: number;
+  value: number;
+}
+
+export interface ForecastPoint extends SeriesPoint {
+  lower: number;
+  upper: number;
+}
+
+interface Prediction {
+  value: number;
+  // standard error of a new observation
+  se: number;
+  df: number;
+}
+
+function tQuantile(df: number): number {
+  return df >= 1 ? (T_QUANTILES[Math.min(df, T_QUANTILES.length) - 1] ?? 1.96) : 1.96;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+export function getForecastYears(lastYear: number): number[] {
+  const years: number[] = [];
+  for (let year = lastYear + 1; year <= FORECAST_END_YEAR; year++) years.push(year);
+  return years;
+}
+
+// Ordinary least squares on the year; needs three points for an interval.
+function fitLinear(series: SeriesPoint[]): ((year: number) => Prediction) | null {
+  const n = series.length;
+  if (n < 3) return null;
+
+  const meanYear = mean(series.map((p) => p.year));
+  const meanValue = mean(series.map((p) => p.value));
+  let sxx = 0;
+  let sxy = 0;
+  for (const { year, value } of series) {
+    sxx += (year - meanYear) ** 2;
+    sxy += (year - meanYear) * (value - meanValue);
+  }
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const intercept = meanValue - slope * meanYear;
+  const sse = series.reduce((acc, p) => acc + (p.value - (intercept + slope * p.year)) ** 2, 0);
+  const s = Math.sqrt(sse / (n - 2));
+
+  return (year) => ({
+    value: intercept + slope * year,
+    se: s * Math.sqrt(1 + 1 / n + (year - meanYear) ** 2 / sxx),
+    df: n - 2,
+  });
+}
+
+// Holt's exponential smoothing with a damped trend. Gaps in the series are
+// treated as consecutive years. The weights minimise the one-step-ahead
+// squared error over a coarse grid; the interval grows with the horizon as in
+// Hyndman & Athanasopoulos, Forecasting: Principles and Practice, table 8.8.
+function fitSmoothing(series: SeriesPoint[]): ((year: number) => Prediction) | null {
+  const n = series.length;
+  if (n < 4) return null;
+  const values = series.map((p) => p.value);
+
+  let best: { alpha: number; beta: number; level: number; trend: number; sse: number } | null =
+    null;
+  for (const alpha of SMOOTHING_GRID) {
+    // The trend weight is kept below the level weight, as is usual for Holt's method
+    for (const beta of SMOOTHING_GRID.filter((b) => b <= alpha)) {
+      let level = values[0];
+      let trend = values[1] - values[0];
+      let sse = 0;
+      for (let t = 1; t < n; t++) {
+        const error = values[t] - (level + TREND_DAMPING * trend);
+        sse += error ** 2;
+        const previousLevel = level;
+        level = alpha * values[t] + (1 - alpha) * (level + TREND_DAMPING * trend);
+        trend = beta * (level - previousLevel) + (1 - beta) * TREND_DAMPING * trend;
+      }
+      if (!best || sse < best.sse) best = { alpha, beta, level, trend, sse };
+    }
+  }
+
+  const { alpha, beta, level, trend, sse } = best!;
+  const df = n - 1 - 2;
+  const sigma = Math.sqrt(sse / df);
+  const lastYear = series[n - 1].year;
+
+  // Sum of damping factors up to a horizon: phi + phi^2 + ... + phi^h
+  const damped = (h: number) => {
+    let sum = 0;
+    for (let j = 1; j <= h; j++) sum += TREND_DAMPING ** j;
+    return sum;
+  };
+
+  return (year) => {
+    const h = year - lastYear;
+    let variance = 1;
+    for (let j = 1; j < h; j++) variance += (alpha * (1 + beta * damped(j))) ** 2;
+    return { value: level + damped(h) * trend, se: sigma * Math.sqrt(variance), df };
+  };
+}
+
+// The national series carries the dynamics; the series itself only its
+// level, as the mean ratio to the national average over its last years.
+function fitPooled(
+  series: SeriesPoint[],
+  national: SeriesPoint[]
+): ((year: number) => Prediction) | null {
+  const nationalFit = fitLinear(national);
+  const nationalByYear = new Map(national.map((p) => [p.year, p.value]));
+  const ratios = series
+    .filter((p) => nationalByYear.get(p.year))
+    .slice(-POOLED_RATIO_YEARS)
+    .map((p) => p.value / nationalByYear.get(p.year)!);
+  if (!nationalFit || ratios.length < 2) return null;
+
+  const k = ratios.length;
+  const ratio = mean(ratios);
+  const ratioSd = Math.sqrt(ratios.reduce((acc, r) => acc + (r - ratio) ** 2, 0) / (k - 1));
+  if (ratio === 0) return null;
+
+  return (year) => {
+    const { value: nationalValue, se: nationalSe, df: nationalDf } = nationalFit(year);
+    const relativeSe = Math.sqrt(
+      (ratioSd / ratio) ** 2 * (1 + 1 / k) + (nationalSe / nationalValue) ** 2
+    );
+    const value = ratio * nationalValue;
+    return { value, se: Math.abs(value) * relativeSe, df: Math.min(k - 1, nationalDf) };
+  };
+}
+
+// Projects a yearly series to FORECAST_END_YEAR. Values and bounds are kept
+// within [0, max]. Returns an empty list when the series is too short for
+// the model (three years for a trend, four for smoothing, two ratios for the
+// pooled model).
+export function forecastSeries(
+  series: SeriesPoint[],
+  model: ForecastModel,
+  national: SeriesPoint[],
+  max = Infinity
+): ForecastPoint[] {
+  const fit =
+    model === "linear"
+      ? fitLinear(series)
+      : model === "smoothing"
+        ? fitSmoothing(series)
+        : fitPooled(series, national);
+  if (!fit || series.length === 0) return [];
+
+  const clamp = (value: number) => round(Math.min(max, Math.max(0, value)));
+  return getForecastYears(series[series.length - 1].year).map((year) => {
+    const { value, se, df } = fit(year);
+    const margin = tQuantile(df) * se;
+    return {
+      year,
+      value: clamp(value),
+      lower: clamp(value - margin),
+      upper: clamp(value + margin),
+    };
+  });
+}
+
+function getMaximum(metric: Metric): number {
+  return metric === "district_heating_share" ? 100 : Infinity;
+}
+
+const forecastIndexes = new WeakMap<MetricIndex, Map<ForecastModel, MetricIndex>>();
+
+// Extends an index with forecast years up to FORECAST_END_YEAR. Forecast
+// records carry their interval in `forecast` and are ranked among each
+// other; series that end before the last data year (dissolved
+// municipalities) are not projected. The national average of a forecast year
+// is the same model applied to the national series (a trend for the pooled
+// model). Cached per index, so the map and its controls share one result.
+export function getForecastIndex(
+  index: MetricIndex,
+  model: ForecastModel,
+  metric: Metric
+): MetricIndex {
+  let byModel = forecastIndexes.get(index);
+  const cached = byModel?.get(model);
+  if (cached) return cached;
+
+  const lastYear = index.years.at(-1);
+  const forecastYears = lastYear !== undefined ? getForecastYears(lastYear) : [];
+  const max = getMaximum(metric);
+  const national = [...index.nationalAverages].map(([year, value]) => ({ year, value }));
+
+  const recordsByYear = new Map<number, Omit<IndexedRecord, "rank" | "percentile">[]>(
+    forecastYears.map((year) => [year, []])
+  );
+  for (const records of index.byMunicipality.values()) {
+    const last = records.at(-1);
+    if (!last || last.year !== lastYear) continue;
+
+    const points = forecastSeries(
+      records.map((r) => ({ year: r.year, value: r.value })),
+      model,
+      national,
+      max
+    );
+    for (const { year, value, lower, upper } of points) {
+      // Only the forecast metric is projected; the record keeps the shape of
+      // the last reported one without its provenance
+      recordsByYear.get(year)!.push({
+        ...last,
+        year,
+        [metric]: value,
+        imputed_from: undefined,
+        estimated: undefined,
+        dwellings: undefined,
+        value,
+        rawValue: value,
+        forecast: { lower, upper },
+      });
+    }
+  }
+
+  const byYear = new Map(index.byYear);
+  const byMunicipality = new Map([...index.byMunicipality].map(([k, v]) => [k, [...v]]));
+  const byStatcode = new Map([...index.byStatcode].map(([k, v]) => [k, [...v]]));
+  for (const [year, records] of recordsByYear) {
+    const ranked = rankByValue(records);
+    if (ranked.length === 0) continue;
+    byYear.set(year, ranked);
+    for (const record of ranked) {
+      byMunicipality.get(record.municipality)?.push(record);
+      if (record.statcode) byStatcode.get(record.statcode)?.push(record);
+    }
+  }
+
+  const nationalForecast = forecastSeries(
+    national,
+    model === "pooled" ? "linear" : model,
+    national,
+    max
+  );
+  const nationalAverages = new Map(index.nationalAverages);
+  const averageSources = new Map(index.averageSources);
+  const lastSource = lastYear !== undefined ? index.averageSources.get(lastYear) : undefined;
+  for (const { year, value } of nationalForecast) {
+    nationalAverages.set(year, value);
+    if (lastSource) averageSources.set(year, lastSource);
+  }
+
+  const result: MetricIndex = {
+    ...index,
+    years: [...index.years, ...forecastYears.filter((year) => byYear.has(year))],
+    byYear,
+    byMunicipality,
+    byStatcode,
+    nationalAverages,
+    averageSources,
+  };
+  if (!byModel) {
+    byModel = new Map();
+    forecastIndexes.set(index, byModel);
+  }
+  byModel.set(model, result);
+  return result;
+}
@@ -0,0 +1,281 @@
+import type {
+  AggregationLevel,
+  AverageMethod,
+  AverageSource,
+  BoundaryMode,
+  ChangeSettings,
+  ConsumptionByMunicipality,
+  GasConsumptionData,
+  GasConsumptionRecord,
+  HeatingDegreeDays,
+  HousingType,
+  Metric,
+} from "../types";
+import { DEFAULT_AVERAGE_METHOD, weightedMean } from "./averageUtils";
+import { getRecordsWithMetric } from "./dataUtils";
+import { applyBoundaryMode, existsInYear } from "./lineageUtils";
+import { buildRegionData } from "./regionUtils";
+import {
+  createWeatherCorrection,
+  isWeatherDependent,
+  type WeatherCorrection,
+} from "./weatherUtils";
+
+export interface IndexedRecord extends GasConsumptionRecord {
+  value: number;
+  // value as reported, before weather correction
+  rawValue: number;
+  // 1 = lowest value in that year
+  rank: number;
+  // rank as a share of all municipalities reported that year, 1-100
+  percentile: number;
+  // forecast records only (see forecastUtils): the prediction interval
+  forecast?: { lower: number; upper: number };
+}
+
+export interface MetricIndex {
+  years: number[];
+  byYear: Map<number, IndexedRecord[]>;
+  byMunicipality: Map<string, IndexedRecord[]>;
+  byStatcode: Map<string, IndexedRecord[]>;
+  nationalAverages: Map<number, number>;
+  // How each year's national average was obtained; a year falls back to the
+  // other method, then to the unweighted mean, when its data is missing
+  averageSources: Map<number, AverageSource>;
+  range: { min: number; max: number };
+  // true when values are weather-corrected (see rawValue for the reported value)
+  weatherCorrected: boolean;
+}
+
+function pushTo<K, V>(map: Map<K, V[]>, key: K, value: V) {
+  const list = map.get(key);
+  if (list) {
+    list.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+// Published national figures per year. Weather correction uses the national
+// degree days, as for a municipality without a station.
+function getCbsAverages(
+  data: GasConsumptionData,
+  housingType: HousingType,
+  metric: Metric,
+  correct?: WeatherCorrection
+): Map<number, number> {
+  const averages = new Map<number, number>();
+  for (const record of data.national_averages ?? []) {
+    const value = record[metric];
+    if (record.housing_type !== housingType || value === null) continue;
+    const corrected = correct ? correct({ statcode: null, year: record.year }, value) : value;
+    if (corrected !== null) averages.set(record.year, corrected);
+  }
+  return averages;
+}
+
+// Ranks records of one year from lowest to highest value.
+export function rankByValue<T extends { value: number }>(
+  records: T[]
+): (T & { rank: number; percentile: number })[] {
+  return [...records]
+    .sort((a, b) => a.value - b.value)
+    .map((record, index, sorted) => ({
+      ...record,
+      rank: index + 1,
+      percentile: Math.round(((index + 1) / sorted.length) * 100),
+    }));
+}
+
+// Precomputes everything the views derive from one housing type and metric,
+// so that averages and ranks are computed in exactly one place.
+export function buildMetricIndex(
+  data: GasConsumptionData,
+  housingType: HousingType,
+  metric: Metric,
+  correct?: WeatherCorrection,
+  averageMethod: AverageMethod = DEFAULT_AVERAGE_METHOD
+): MetricIndex {
+  const recordsByYear = new Map<
+    number,
+    (GasConsumptionRecord & { value: number; rawValue: number })[]
+  >();
+  for (const record of getRecordsWithMetric(data, housingType, metric)) {
+    const value = correct ? correct(record, record.value) : record.value;
+    if (value !== null) {
+      pushTo(recordsByYear, record.year, { ...record, value, rawValue: record.value });
+    }
+  }
+
+  const years = [...recordsByYear.keys()].sort((a, b) => a - b);
+  const byYear = new Map<number, IndexedRecord[]>();
+  const byMunicipality = new Map<string, IndexedRecord[]>();
+  const byStatcode = new Map<string, IndexedRecord[]>();
+  const nationalAverages = new Map<number, number>();
+  const averageSources = new Map<number, AverageSource>();
+  const cbsAverages = getCbsAverages(data, housingType, metric, correct);
+  const methods: AverageMethod[] =
+    averageMethod === "cbs" ? ["cbs", "weighted"] : ["weighted", "cbs"];
+  let min = Infinity;
+  let max = -Infinity;
+
+  for (const year of years) {
+    const sorted = rankByValue(recordsByYear.get(year)!);
+    byYear.set(year, sorted);
+
+    const candidates: Record<AverageMethod, number | null> = {
+      cbs: cbsAverages.get(year) ?? null,
+      weighted: weightedMean(sorted),
+    };
+    const source = methods.find((m) => candidates[m] !== null);
+    if (source) {
+      nationalAverages.set(year, candidates[source]!);
+      averageSources.set(year, source);
+    } else {
+      const sum = sorted.reduce((acc, r) => acc + r.value, 0);
+      nationalAverages.set(year, Math.round((sum / sorted.length) * 10) / 10);
+      averageSources.set(year, "unweighted");
+    }
+    min = Math.min(min, sorted[0].value);
+    max = Math.max(max, sorted[sorted.length - 1].value);
+
+    for (const record of sorted) {
+      pushTo(byMunicipality, record.municipality, record);
+      if (record.statcode) pushTo(byStatcode, record.statcode, record);
+    }
+  }
+
+  return {
+    years,
+    byYear,
+    byMunicipality,
+    byStatcode,
+    nationalAverages,
+    averageSources,
+    range: { min, max },
+    weatherCorrected: correct !== undefined,
+  };
+}
+
+export type IndexLookup = (
+  housingType: HousingType,
+  metric: Metric,
+  boundaryMode?: BoundaryMode,
+  weatherCorrected?: boolean,
+  level?: AggregationLevel
+) => MetricIndex;
+
+// Builds indexes on first use and keeps them for the lifetime of the data.
+// Municipal indexes show the data as reported unless "current" boundaries are
+// asked for.
+// Weather correction only applies to weather-dependent metrics and when a
+// degree-day table is loaded. Provinces and landsdelen are built from current
+// municipal boundaries and share the municipal national average, so "vs
+// national average" means the same at every level.
+export function createIndexCache(
+  data: GasConsumptionData,
+  hdd: HeatingDegreeDays | null = null,
+  averageMethod: AverageMethod = DEFAULT_AVERAGE_METHOD
+): IndexLookup {
+  const boundaryData = new Map<BoundaryMode | AggregationLevel, GasConsumptionData>();
+  const indexes = new Map<string, MetricIndex>();
+  const correction = hdd ? createWeatherCorrection(hdd) : undefined;
+
+  const getData = (boundaryMode: BoundaryMode, level: AggregationLevel): GasConsumptionData => {
+    const key = level === "municipality" ? boundaryMode : level;
+    let modeData = boundaryData.get(key);
+    if (!modeData) {
+      modeData =
+        level === "municipality"
+          ? applyBoundaryMode(data, boundaryMode)
+          : buildRegionData(getData("current", "municipality"), level);
+      boundaryData.set(key, modeData);
+    }
+    return modeData;
+  };
+
+  const lookup: IndexLookup = (
+    housingType,
+    metric,
+    boundaryMode = "historical",
+    weatherCorrected = false,
+    level = "municipality"
+  ) => {
+    const corrected = weatherCorrected && correction !== undefined && isWeatherDependent(metric);
+    const mode = level === "municipality" ? boundaryMode : "current";
+    const key = `${level}|${mode}|${housingType}|${metric}|${corrected}`;
+    let index = indexes.get(key);
+    if (!index) {
+      index = buildMetricIndex(
+        getData(mode, level),
+        housingType,
+        metric,
+        corrected ? correction : undefined,
+        averageMethod
+      );
+      if (level !== "municipality") {
+        const municipal = lookup(housingType, metric, "historical", weatherCorrected);
+        index = {
+          ...index,
+          nationalAverages: municipal.nationalAverages,
+          averageSources: municipal.averageSources,
+        };
+      }
+      indexes.set(key, index);
+    }
+    return index;
+  };
+
+  return lookup;
+}
+
+// A year in which fewer than this share of its municipalities have a value is
+// marked as incomplete.
+const COMPLETE_COVERAGE = 0.95;
+
+export interface YearCoverage {
+  year: number;
+  // municipalities with a value that year
+  count: number;
+  complete: boolean;
+}
+
+// Coverage of each year relative to the municipalities of the index that
+// existed that year (see existsInYear), so mergers do not count as missing
+// data and a metric that is only reported for some municipalities is judged
+// against itself. Years without any values are included with a count of zero.
+export function getYearCoverage(index: MetricIndex, years: number[]): YearCoverage[] {
+  return years.map((year) => {
+    const records = index.byYear.get(year) ?? [];
+    const reported = new Set(records.map((r) => r.municipality));
+    let expected = reported.size;
+    for (const municipality of index.byMunicipality.keys()) {
+      if (!reported.has(municipality) && existsInYear(municipality, year)) expected++;
+    }
+    return {
+      year,
+      count: records.length,
+      complete: records.length > 0 && records.length >= expected * COMPLETE_COVERAGE,
+    };
+  });
+}
+
+// Change per statcode between two years; municipalities missing either year
+// are left out.
+export function getChangeByMunicipality(
+  index: MetricIndex,
+  { fromYear, toYear, unit }: ChangeSettings
+): ConsumptionByMunicipality {
+  const result: ConsumptionByMunicipality = {};
+
+  for (const [statcode, records] of index.byStatcode) {
+    const from = records.find((r) => r.year === fromYear)?.value;
+    const to = records.find((r) => r.year === toYear)?.value;
+    if (from === undefined || to === undefined) continue;
+    if (unit === "percent" && from === 0) continue;
+
+    result[statcode] = unit === "percent" ? ((to - from) / from) * 100 : to - from;
+  }
+
+  return result;
+}
@@ -0,0 +1,159 @@
+import { MUNICIPAL_MERGERS } from "../data/mergers";
+import { getTotalDwellings, meanOfRecords } from "./averageUtils";
+import type {
+  BoundaryMode,
+  GasConsumptionData,
+  GasConsumptionRecord,
+  MunicipalMerger,
+} from "../types";
+
+// First reporting year in which only the successor exists. CBS reports on
+// the boundaries of 1 January, so a merger later in the year counts from the
+// following year.
+export function getMergerYear(merger: MunicipalMerger): number {
+  const [year, month, day] = merger.effectiveDate.split("-").map(Number);
+  return month === 1 && day === 1 ? year : year + 1;
+}
+
+function byEffectiveDate(a: MunicipalMerger, b: MunicipalMerger): number {
+  return a.effectiveDate.localeCompare(b.effectiveDate);
+}
+
+export function getFormingMergers(municipality: string): MunicipalMerger[] {
+  return MUNICIPAL_MERGERS.filter((m) => m.successor === municipality).sort(byEffectiveDate);
+}
+
+export function getDissolvingMergers(municipality: string): MunicipalMerger[] {
+  return MUNICIPAL_MERGERS.filter(
+    (m) => m.successor !== municipality && m.predecessors.includes(municipality)
+  ).sort(byEffectiveDate);
+}
+
+export function isDissolved(municipality: string): boolean {
+  return getDissolvingMergers(municipality).length > 0;
+}
+
+// Whether a municipality is on the CBS map of a reporting year: formed by then
+// (a successor under a new name) and not yet merged into another.
+export function existsInYear(municipality: string, year: number): boolean {
+  const formation = getFormingMergers(municipality).find(
+    (m) => !m.predecessors.includes(municipality)
+  );
+  if (formation && getMergerYear(formation) > year) return false;
+  return getDissolvingMergers(municipality).every((m) => getMergerYear(m) > year);
+}
+
+// Current municipalities that took over (part of) a municipality, following
+// chains of mergers forwards. A current municipality resolves to itself.
+export function getSuccessors(municipality: string): string[] {
+  const mergers = getDissolvingMergers(municipality);
+  if (mergers.length === 0) return [municipality];
+  return [...new Set(mergers.flatMap((m) => getSuccessors(m.successor)))];
+}
+
+// Maps every municipality to its CBS statcode; dissolved municipalities map
+// to null.
+export function getStatcodeByMunicipality(
+  records: GasConsumptionRecord[]
+): Map<string, string | null> {
+  const statcodes = new Map<string, string | null>();
+  for (const record of records) {
+    if (!statcodes.get(record.municipality)) {
+      statcodes.set(record.municipality, record.statcode);
+    }
+  }
+  return statcodes;
+}
+
+// Combines predecessor records into one record for the successor using the
+// mean per metric ("predecessor averaging"), weighted by dwellings when every
+// predecessor has a dwelling count.
+export function averageRecords(
+  sources: GasConsumptionRecord[],
+  target: Pick<GasConsumptionRecord, "municipality" | "statcode" | "year" | "housing_type">
+): GasConsumptionRecord {
+  const dwellings = getTotalDwellings(sources);
+  return {
+    ...target,
+    gas_consumption: meanOfRecords(sources, "gas_consumption")!,
+    electricity_delivery: meanOfRecords(sources, "electricity_delivery"),
+    net_electricity_delivery: meanOfRecords(sources, "net_electricity_delivery"),
+    district_heating_share: meanOfRecords(sources, "district_heating_share"),
+    imputed_from: sources.map((r) => r.municipality),
+    ...(dwellings !== null && { dwellings }),
+  };
+}
+
+// Records that cover a municipality's territory in a year: its own record
+// whenever CBS reports it, otherwise the records of the predecessors of the
+// next merger, resolved the same way. Predecessors that were split over
+// several successors are left out, as only part of them was taken over.
+function resolveSources(
+  index: Map<string, GasConsumptionRecord>,
+  municipality: string,
+  year: number,
+  housingType: GasConsumptionRecord["housing_type"],
+  before: number = Infinity
+): GasConsumptionRecord[] {
+  const own = index.get(`${municipality}|${year}|${housingType}`);
+  if (own) return [own];
+
+  const merger = getFormingMergers(municipality)
+    .filter((m) => getMergerYear(m) > year && getMergerYear(m) < before)
+    .pop();
+  if (!merger) return [];
+
+  const mergerYear = getMergerYear(merger);
+  const sources = merger.predecessors
+    .filter((name) => !merger.partial?.includes(name))
+    .flatMap((name) => resolveSources(index, name, year, housingType, mergerYear));
+  return [...new Set(sources)];
+}
+
+// "historical" keeps the municipalities as CBS reported them in each year.
+// "current" keeps only today's municipalities; years CBS does not report for
+// a municipality are derived from the predecessors that formed it.
+export function applyBoundaryMode(
+  data: GasConsumptionData,
+  mode: BoundaryMode
+): GasConsumptionData {
+  const reported = data.data.filter((r) => !r.imputed_from);
+
+  if (mode === "historical") {
+    return { ...data, data: reported };
+  }
+
+  const index = new Map<string, GasConsumptionRecord>();
+  for (const record of reported) {
+    index.set(`${record.municipality}|${record.year}|${record.housing_type}`, record);
+  }
+
+  const years = [...new Set(data.data.map((r) => r.year))].sort((a, b) => a - b);
+  const housingTypes = [...new Set(data.data.map((r) => r.housing_type))];
+  const statcodes = getStatcodeByMunicipality(data.data);
+  const municipalities = [...statcodes.keys()].filter((name) => !isDissolved(name));
+
+  const result: GasConsumptionRecord[] = [];
+  for (const municipality of municipalities) {
+    for (const year of years) {
+      for (const housingType of housingTypes) {
+        const sources = resolveSources(index, municipality, year, housingType);
+        if (sources.length === 0) continue;
+
+        const isOwnRecord = sources.length === 1 && sources[0].municipality === municipality;
+        result.push(
+          isOwnRecord
+            ? sources[0]
+            : averageRecords(sources, {
+                municipality,
+                statcode: statcodes.get(municipality) ?? null,
+                year,
+                housing_type: housingType,
+              })
+        );
+      }
+    }
+  }
+
+  return { ...data, data: result };
+}
@@ -0,0 +1,121 @@
+import type { ModelPredictionFile, ModelResult } from "../types";
+import type { MetricIndex } from "./indexUtils";
+
+export interface PredictionRow {
+  statcode: string;
+  municipality: string;
+  year: number;
+  actual: number;
+  predicted: number;
+  // actual - predicted: positive where the model predicts too low
+  residual: number;
+  lower?: number;
+  upper?: number;
+}
+
+export interface ErrorMetrics {
+  count: number;
+  mae: number;
+  rmse: number;
+  // Percent; null when every actual value is zero
+  mape: number | null;
+  // Coefficient of determination; null with fewer than two points or no variance
+  r2: number | null;
+}
+
+// Splits a parsed file into one result per model. Later predictions for the
+// same municipality and year replace earlier ones.
+export function toModelResults(file: ModelPredictionFile, source: string): ModelResult[] {
+  const byModel = new Map<string, Map<string, ModelResult["predictions"][number]>>();
+  for (const prediction of file.predictions) {
+    let predictions = byModel.get(prediction.model);
+    if (!predictions) {
+      predictions = new Map();
+      byModel.set(prediction.model, predictions);
+    }
+    predictions.set(`${prediction.statcode}|${prediction.year}`, prediction);
+  }
+
+  return [...byModel].map(([model, predictions]) => ({
+    model,
+    source,
+    description: file.metadata?.description,
+    metric: file.metadata?.metric ?? "gas_consumption",
+    housingType: file.metadata?.housing_type ?? "total",
+    predictions: [...predictions.values()].sort(
+      (a, b) => a.statcode.localeCompare(b.statcode) || a.year - b.year
+    ),
+  }));
+}
+
+// Distinguishes models of the same name loaded from different files
+export function getModelLabel(result: ModelResult, results: ModelResult[]): string {
+  const shared = results.some((r) => r !== result && r.model === result.model);
+  return shared ? `${result.model} (${result.source})` : result.model;
+}
+
+// Pairs predictions with the reported values of the index. Predictions for
+// municipalities or years without a reported value are left out.
+export function joinPredictions(result: ModelResult, index: MetricIndex): PredictionRow[] {
+  const rows: PredictionRow[] = [];
+  for (const prediction of result.predictions) {
+    const actual = index.byStatcode
+      .get(prediction.statcode)
+      ?.find((record) => record.year === prediction.year && !record.forecast);
+    if (!actual) continue;
+
+    rows.push({
+      statcode: prediction.statcode,
+      municipality: actual.municipality,
+      year: prediction.year,
+      actual: actual.value,
+      predicted: prediction.predicted,
+      residual: actual.value - prediction.predicted,
+      lower: prediction.lower,
+      upper: prediction.upper,
+    });
+  }
+  return rows;
+}
+
+export function computeErrorMetrics(rows: PredictionRow[]): ErrorMetrics | null {
+  const count = rows.length;
+  if (count === 0) return null;
+
+  let absolute = 0;
+  let squared = 0;
+  let percentage = 0;
+  let percentageCount = 0;
+  for (const { actual, residual } of rows) {
+    absolute += Math.abs(residual);
+    squared += residual ** 2;
+    if (actual !== 0) {
+      percentage += Math.abs(residual / actual);
+      percentageCount++;
+    }
+  }
+
+  const meanActual = rows.reduce((acc, r) => acc + r.actual, 0) / count;
+  const total = rows.reduce((acc, r) => acc + (r.actual - meanActual) ** 2, 0);
+
+  return {
+    count,
+    mae: absolute / count,
+    rmse: Math.sqrt(squared / count),
+    mape: percentageCount > 0 ? (percentage / percentageCount) * 100 : null,
+    r2: count >= 2 && total > 0 ? 1 - squared / total : null,
+  };
+}
+
+// Metrics over all rows (year null) followed by one entry per year
+export function computeMetricsByYear(
+  rows: PredictionRow[]
+): { year: number | null; metrics: ErrorMetrics }[] {
+  const years = [...new Set(rows.map((r) => r.year))].sort((a, b) => a - b);
+  return [null, ...years].flatMap((year) => {
+    const metrics = computeErrorMetrics(
+      year === null ? rows : rows.filter((r) => r.year === year)
+    );
+    return metrics ? [{ year, metrics }] : [];
+  });
+}
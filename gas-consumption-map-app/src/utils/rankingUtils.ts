@@ -0,0 +1,65 @@
+import type { MetricIndex } from "./indexUtils";
+import { getProvince } from "./regionUtils";
+
+export interface RankingRow {
+  municipality: string;
+  statcode: string | null;
+  province: string | null;
+  value: number;
+  rank: number;
+  percentile: number;
+  // Changes and deviation in percent; null when the other value is missing
+  yearOverYear: number | null;
+  sinceFirstYear: number | null;
+  deviation: number | null;
+}
+
+export type RankingColumn = Exclude<keyof RankingRow, "statcode">;
+
+export type SortDirection = "asc" | "desc";
+
+function percentChange(from: number | undefined, to: number): number | null {
+  if (from === undefined || from === 0) return null;
+  return ((to - from) / from) * 100;
+}
+
+// One row per municipality reported in the given year. Changes compare with
+// the previous year and with the first year of the index.
+export function getRankingRows(index: MetricIndex, year: number): RankingRow[] {
+  const firstYear = index.years[0];
+  const average = index.nationalAverages.get(year);
+
+  return (index.byYear.get(year) ?? []).map((record) => {
+    const history = index.byMunicipality.get(record.municipality) ?? [];
+    const valueIn = (y: number) => history.find((r) => r.year === y)?.value;
+    return {
+      municipality: record.municipality,
+      statcode: record.statcode,
+      province: getProvince(record.municipality)?.name ?? null,
+      value: record.value,
+      rank: record.rank,
+      percentile: record.percentile,
+      yearOverYear: percentChange(valueIn(year - 1), record.value),
+      sinceFirstYear: year === firstYear ? null : percentChange(valueIn(firstYear), record.value),
+      deviation: percentChange(average, record.value),
+    };
+  });
+}
+
+// Missing values sort last in either direction.
+export function sortRankingRows(
+  rows: RankingRow[],
+  column: RankingColumn,
+  direction: SortDirection
+): RankingRow[] {
+  const sign = direction === "asc" ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const x = a[column];
+    const y = b[column];
+    if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+    if (typeof x === "string" || typeof y === "string") {
+      return sign * String(x).localeCompare(String(y), "nl");
+    }
+    return sign * (x - y);
+  });
+}
@@ -0,0 +1,131 @@
+import { LANDSDELEN, PROVINCES } from "../data/provinces";
+import { getTotalDwellings, meanOfRecords } from "./averageUtils";
+import type {
+  AggregationLevel,
+  GasConsumptionData,
+  GasConsumptionRecord,
+  HousingType,
+  Metric,
+  Province,
+  Region,
+  RegionLevel,
+  RegionalRecord,
+} from "../types";
+
+export const AGGREGATION_LEVELS: { value: AggregationLevel; label: string }[] = [
+  { value: "municipality", label: "Municipality" },
+  { value: "province", label: "Province" },
+  { value: "landsdeel", label: "Landsdeel" },
+];
+
+// Kept here rather than taken from dataUtils so build scripts can import this file
+const METRIC_KEYS: Metric[] = [
+  "gas_consumption",
+  "electricity_delivery",
+  "net_electricity_delivery",
+  "district_heating_share",
+];
+
+const REGION_CODE_PATTERN = /^(PV\d{2}|LD\d{2})$/i;
+
+const provinceByMunicipality = new Map(
+  PROVINCES.flatMap((province) => province.municipalities.map((name) => [name, province] as const))
+);
+
+// Province of a current municipality; dissolved municipalities have none.
+export function getProvince(municipality: string): Province | undefined {
+  return provinceByMunicipality.get(municipality);
+}
+
+export function getRegions(level: RegionLevel): Region[] {
+  if (level === "province") {
+    return PROVINCES.map(({ code, name, municipalities }) => ({
+      level,
+      code,
+      name,
+      municipalities,
+    }));
+  }
+  return LANDSDELEN.map(({ code, name }) => ({
+    level,
+    code,
+    name,
+    municipalities: PROVINCES.filter((p) => p.landsdeel === name).flatMap((p) => p.municipalities),
+  }));
+}
+
+export function findRegion(code: string): Region | undefined {
+  if (!REGION_CODE_PATTERN.test(code)) return undefined;
+  const upper = code.toUpperCase();
+  return [...getRegions("province"), ...getRegions("landsdeel")].find((r) => r.code === upper);
+}
+
+export function getRegionPath(code: string): string {
+  return `/region/${code}`;
+}
+
+// Turns a level into records shaped like municipal ones (named after the
+// region, with its CBS code as statcode), so indexes, maps and detail pages
+// work unchanged. CBS-published averages are used where available; metrics
+// CBS does not publish fall back to the mean of the region's municipalities on
+// current boundaries (dwelling-weighted when every municipality has a dwelling
+// count) and are listed in `estimated`.
+export function buildRegionData(
+  data: GasConsumptionData,
+  level: RegionLevel
+): GasConsumptionData {
+  const published = new Map<string, RegionalRecord>();
+  for (const record of data.regional_averages ?? []) {
+    if (record.level === level) {
+      published.set(`${record.region}|${record.year}|${record.housing_type}`, record);
+    }
+  }
+
+  const regions = getRegions(level);
+  const regionByName = new Map(regions.map((region) => [region.name, region]));
+  const regionByMunicipality = new Map(
+    regions.flatMap((region) => region.municipalities.map((m) => [m, region] as const))
+  );
+  const members = new Map<string, GasConsumptionRecord[]>();
+  for (const record of data.data) {
+    const region = regionByMunicipality.get(record.municipality);
+    if (!region) continue;
+    const key = `${region.name}|${record.year}|${record.housing_type}`;
+    const list = members.get(key);
+    if (list) {
+      list.push(record);
+    } else {
+      members.set(key, [record]);
+    }
+  }
+
+  const records: GasConsumptionRecord[] = [];
+  for (const key of new Set([...published.keys(), ...members.keys()])) {
+    const [name, year, housingType] = key.split("|");
+    const region = regionByName.get(name);
+    if (!region) continue;
+
+    const values = {} as Record<Metric, number | null>;
+    const estimated: Metric[] = [];
+    for (const metric of METRIC_KEYS) {
+      const value = published.get(key)?.[metric] ?? null;
+      values[metric] = value ?? meanOfRecords(members.get(key) ?? [], metric);
+      if (value === null && values[metric] !== null) estimated.push(metric);
+    }
+    if (values.gas_consumption === null) continue;
+    const dwellings = getTotalDwellings(members.get(key) ?? []);
+
+    records.push({
+      municipality: region.name,
+      statcode: region.code,
+      year: Number(year),
+      housing_type: housingType as HousingType,
+      ...values,
+      gas_consumption: values.gas_consumption,
+      ...(estimated.length > 0 && { estimated }),
+      ...(dwellings !== null && dwellings > 0 && { dwellings }),
+    });
+  }
+
+  return { ...data, data: records };
+}
@@ -0,0 +1,130 @@
+import { MUNICIPALITY_ALIASES } from "../data/aliases";
+import { MUNICIPAL_MERGERS } from "../data/mergers";
+import type { GasConsumptionData } from "../types";
+import { getStatcodeByMunicipality, getSuccessors, isDissolved } from "./lineageUtils";
+
+export type SearchTermKind = "name" | "alias" | "former";
+
+export interface SearchTerm {
+  statcode: string;
+  // statnaam of the feature the term leads to
+  name: string;
+  term: string;
+  kind: SearchTermKind;
+  normalized: string;
+}
+
+export interface SearchResult {
+  statcode: string;
+  name: string;
+  // alias or former name that matched; null when the name itself matched
+  matched: { term: string; kind: Exclude<SearchTermKind, "name"> } | null;
+}
+
+const KIND_ORDER: Record<SearchTermKind, number> = { name: 0, alias: 1, former: 2 };
+
+// Lower-cased, without diacritics and with punctuation as spaces, so
+// "sudwest fryslan" finds "Súdwest-Fryslân".
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// Every name that leads to a map feature: its statnaam, common aliases and
+// the names of municipalities that merged into it.
+export function buildSearchTerms(
+  features: { statcode: string; statnaam: string }[],
+  data: GasConsumptionData
+): SearchTerm[] {
+  const names = new Map(features.map((f) => [f.statcode, f.statnaam]));
+  const statcodes = getStatcodeByMunicipality(data.data);
+  const terms: SearchTerm[] = [];
+
+  const add = (municipality: string, term: string, kind: SearchTermKind) => {
+    const statcode = statcodes.get(municipality);
+    const name = statcode ? names.get(statcode) : undefined;
+    if (statcode && name) {
+      terms.push({ statcode, name, term, kind, normalized: normalizeSearchText(term) });
+    }
+  };
+
+  for (const [statcode, name] of names) {
+    terms.push({ statcode, name, term: name, kind: "name", normalized: normalizeSearchText(name) });
+  }
+  for (const [municipality, aliases] of Object.entries(MUNICIPALITY_ALIASES)) {
+    for (const alias of aliases) add(municipality, alias, "alias");
+  }
+  const former = new Set(MUNICIPAL_MERGERS.flatMap((m) => m.predecessors).filter(isDissolved));
+  for (const municipality of former) {
+    for (const successor of getSuccessors(municipality)) add(successor, municipality, "former");
+  }
+
+  return terms;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Lower is better; null when the term does not match. Longer queries may
+// contain a typo or two against the start of the term.
+function scoreTerm(normalized: string, query: string): number | null {
+  if (normalized === query) return 0;
+  if (normalized.startsWith(query)) return 1;
+  if (normalized.split(" ").some((word) => word.startsWith(query))) return 2;
+  if (normalized.includes(query)) return 3;
+
+  const typos = query.length >= 8 ? 2 : query.length >= 4 ? 1 : 0;
+  if (typos === 0) return null;
+  const distance = levenshtein(query, normalized.slice(0, query.length));
+  return distance <= typos ? 3 + distance : null;
+}
+
+// Best match per feature, best first.
+export function searchMunicipalities(
+  terms: SearchTerm[],
+  query: string,
+  limit: number = 8
+): SearchResult[] {
+  const normalizedQuery = normalizeSearchText(query);
+  if (!normalizedQuery) return [];
+
+  const best = new Map<string, { term: SearchTerm; score: number }>();
+  for (const term of terms) {
+    const score = scoreTerm(term.normalized, normalizedQuery);
+    if (score === null) continue;
+    const current = best.get(term.statcode);
+    if (
+      !current ||
+      score < current.score ||
+      (score === current.score && KIND_ORDER[term.kind] < KIND_ORDER[current.term.kind])
+    ) {
+      best.set(term.statcode, { term, score });
+    }
+  }
+
+  return [...best.values()]
+    .sort((a, b) => a.score - b.score || a.term.name.localeCompare(b.term.name, "nl"))
+    .slice(0, limit)
+    .map(({ term }) => ({
+      statcode: term.statcode,
+      name: term.name,
+      matched: term.kind === "name" ? null : { term: term.term, kind: term.kind },
+    }));
+}
@@ -0,0 +1,10 @@
+// The worker precaches the app and its datasets so every page works offline
+// once visited (see plugins/precache.ts). It only exists in production builds.
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", () => {
+    // Without a worker the app still works, only not offline
+    navigator.serviceWorker.register("/sw.js").catch(() => {});
+  });
+}
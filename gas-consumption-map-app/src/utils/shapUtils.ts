@@ -0,0 +1,184 @@
+import type { ShapExplanation, ShapFile, ShapResult } from "../types";
+
+// Features beyond this many are summed into one "other features" entry in
+// waterfalls and share one colour on the top-feature map
+export const MAX_SHAP_FEATURES = 8;
+
+export const OTHER_FEATURES = "Other features";
+
+export interface FeatureImportance {
+  feature: string;
+  label: string;
+  // mean absolute SHAP value
+  importance: number;
+}
+
+export interface BeeswarmPoint {
+  statcode: string;
+  shap: number;
+  // row of the feature, offset by the point's place in the swarm
+  y: number;
+  // feature value as a percentile among the points, 0 (low) to 1 (high);
+  // null when the file has no feature values
+  level: number | null;
+}
+
+export interface WaterfallStep {
+  label: string;
+  // running prediction before and after this contribution
+  start: number;
+  end: number;
+  shap: number;
+}
+
+function meanAbsolute(explanations: ShapExplanation[], feature: string): number {
+  if (explanations.length === 0) return 0;
+  return (
+    explanations.reduce((acc, e) => acc + Math.abs(e.shap[feature] ?? 0), 0) / explanations.length
+  );
+}
+
+export function toShapResult(file: ShapFile, source: string): ShapResult {
+  const featureSet = new Set(file.explanations.flatMap((e) => Object.keys(e.shap)));
+  const importance = new Map(
+    [...featureSet].map((feature) => [feature, meanAbsolute(file.explanations, feature)])
+  );
+
+  return {
+    model: file.metadata?.model ?? source,
+    source,
+    description: file.metadata?.description,
+    metric: file.metadata?.metric ?? "gas_consumption",
+    housingType: file.metadata?.housing_type ?? "total",
+    baseValue: file.base_value,
+    features: [...featureSet].sort((a, b) => importance.get(b)! - importance.get(a)!),
+    featureLabels: file.metadata?.feature_labels ?? {},
+    explanations: file.explanations,
+  };
+}
+
+export function getFeatureLabel(result: ShapResult, feature: string): string {
+  return result.featureLabels[feature] ?? feature;
+}
+
+export function getShapYears(result: ShapResult): number[] {
+  return [...new Set(result.explanations.map((e) => e.year))].sort((a, b) => a - b);
+}
+
+function inYear(result: ShapResult, year: number | null): ShapExplanation[] {
+  return year === null ? result.explanations : result.explanations.filter((e) => e.year === year);
+}
+
+// Mean absolute SHAP value per feature, most important first
+export function getGlobalImportance(
+  result: ShapResult,
+  year: number | null = null
+): FeatureImportance[] {
+  const explanations = inYear(result, year);
+  return result.features
+    .map((feature) => ({
+      feature,
+      label: getFeatureLabel(result, feature),
+      importance: meanAbsolute(explanations, feature),
+    }))
+    .sort((a, b) => b.importance - a.importance);
+}
+
+// Points of a beeswarm summary for the given features, feature i on row i.
+// Points with nearly the same SHAP value are stacked alternately above and
+// below the row so the density shows.
+export function getBeeswarm(
+  result: ShapResult,
+  features: string[],
+  year: number | null = null,
+  bins = 60
+): BeeswarmPoint[][] {
+  const explanations = inYear(result, year);
+  const values = explanations.flatMap((e) => features.map((f) => e.shap[f] ?? 0));
+  const min = Math.min(...values);
+  const width = (Math.max(...values) - min) / bins || 1;
+  const maxOffset = 0.4;
+
+  return features.map((feature, row) => {
+    const points = explanations.filter((e) => e.shap[feature] !== undefined);
+
+    const known = points
+      .map((e) => e.features?.[feature])
+      .filter((v): v is number => typeof v === "number")
+      .sort((a, b) => a - b);
+    const getLevel = (value: number | null | undefined) => {
+      if (typeof value !== "number" || known.length < 2) return null;
+      return known.indexOf(value) / (known.length - 1);
+    };
+
+    const counts = new Map<number, number>();
+    const stacked = points.map((e) => {
+      const shap = e.shap[feature];
+      const bin = Math.floor((shap - min) / width);
+      const n = counts.get(bin) ?? 0;
+      counts.set(bin, n + 1);
+      return { e, shap, n };
+    });
+    const densest = Math.max(1, ...counts.values());
+    const step = Math.min(0.04, (2 * maxOffset) / densest);
+
+    return stacked.map(({ e, shap, n }) => ({
+      statcode: e.statcode,
+      shap,
+      y: row + (n % 2 === 0 ? 1 : -1) * Math.ceil(n / 2) * step,
+      level: getLevel(e.features?.[feature]),
+    }));
+  });
+}
+
+export function findExplanation(
+  result: ShapResult,
+  statcode: string,
+  year: number
+): ShapExplanation | undefined {
+  return result.explanations.find((e) => e.statcode === statcode && e.year === year);
+}
+
+// Steps from the base value to the prediction, largest contributions first;
+// the rest are combined into OTHER_FEATURES.
+export function getWaterfall(
+  result: ShapResult,
+  explanation: ShapExplanation,
+  maxFeatures = MAX_SHAP_FEATURES
+): WaterfallStep[] {
+  const contributions = Object.entries(explanation.shap).sort(
+    (a, b) => Math.abs(b[1]) - Math.abs(a[1])
+  );
+  const shown = contributions.slice(0, maxFeatures);
+  const other = contributions.slice(maxFeatures).reduce((acc, [, shap]) => acc + shap, 0);
+
+  const entries = shown.map(([feature, shap]) => ({
+    label: getFeatureLabel(result, feature),
+    shap,
+  }));
+  if (contributions.length > maxFeatures) entries.push({ label: OTHER_FEATURES, shap: other });
+
+  let running = result.baseValue;
+  return entries.map(({ label, shap }) => {
+    const start = running;
+    running += shap;
+    return { label, start, end: running, shap };
+  });
+}
+
+// The feature with the largest absolute SHAP value per municipality
+export function getTopFeatures(
+  result: ShapResult,
+  year: number
+): Record<string, { feature: string; shap: number }> {
+  const top: Record<string, { feature: string; shap: number }> = {};
+  for (const explanation of inYear(result, year)) {
+    for (const [feature, shap] of Object.entries(explanation.shap)) {
+      const current = top[explanation.statcode];
+      if (!current || Math.abs(shap) > Math.abs(current.shap)) {
+        top[explanation.statcode] = { feature, shap };
+      }
+    }
+  }
+  return top;
+}
@@ -0,0 +1,162 @@
+import type {
+  AggregationLevel,
+  ChangeSettings,
+  Classification,
+  ClassificationMethod,
+  ForecastModel,
+  HousingType,
+  MapMode,
+  MapViewport,
+  Metric,
+  SequentialPalette,
+} from "../types";
+import { DEFAULT_HOUSING_TYPE, DEFAULT_METRIC, HOUSING_TYPES } from "./dataUtils";
+import { AGGREGATION_LEVELS } from "./regionUtils";
+import { FORECAST_MODELS } from "./forecastUtils";
+import {
+  CLASSIFICATION_METHODS,
+  DEFAULT_CLASSIFICATION,
+  MAX_CLASS_COUNT,
+  MIN_CLASS_COUNT,
+  PALETTES,
+} from "./classificationUtils";
+
+// Everything needed to reproduce a map view from a link. Values equal to the
+// defaults are left out of the URL to keep links short.
+export interface MapUrlState {
+  // null means the latest year in the data
+  year: number | null;
+  metric: Metric;
+  housingType: HousingType;
+  level: AggregationLevel;
+  weatherCorrected: boolean;
+  // null shows reported years only
+  forecast: ForecastModel | null;
+  classification: Classification;
+  mode: MapMode;
+  // Years and unit of change mode; null means first to latest year in percent
+  change: ChangeSettings | null;
+  // null leaves the map at its initial view
+  viewport: MapViewport | null;
+  // statcode, or region code at province and landsdeel level
+  selected: string | null;
+  // key of a covariate shown instead of the metric; checked against the
+  // loaded covariates where it is used
+  covariate: string | null;
+}
+
+// Short names used in the URL, e.g. ?metric=gas
+const METRIC_PARAMS: Record<Metric, string> = {
+  gas_consumption: "gas",
+  electricity_delivery: "electricity",
+  net_electricity_delivery: "net_electricity",
+  district_heating_share: "district_heating",
+};
+
+const STATCODE_PATTERN = /^(GM\d{4}|PV\d{2}|LD\d{2})$/;
+
+function parseInteger(value: string | null): number | null {
+  if (value === null || !/^\d+$/.test(value)) return null;
+  return Number(value);
+}
+
+function findKey<T extends string>(keys: readonly T[], value: string | null): T | undefined {
+  return keys.find((key) => key === value);
+}
+
+function parseViewport(params: URLSearchParams): MapViewport | null {
+  const zoom = Number(params.get("z"));
+  const [lat, lng] = (params.get("c") ?? "").split(",").map(Number);
+  if (!params.has("z") || !Number.isFinite(zoom) || !Number.isFinite(lat) || !Number.isFinite(lng)) {
+    return null;
+  }
+  return { zoom, center: [lat, lng] };
+}
+
+export function parseMapUrlState(params: URLSearchParams): MapUrlState {
+  const metricParam = params.get("metric");
+  const metric =
+    (Object.keys(METRIC_PARAMS) as Metric[]).find((m) => METRIC_PARAMS[m] === metricParam) ??
+    DEFAULT_METRIC;
+
+  const classCount = parseInteger(params.get("k"));
+  const from = parseInteger(params.get("from"));
+  const to = parseInteger(params.get("to"));
+  const selected = params.get("sel")?.toUpperCase() ?? null;
+
+  return {
+    year: parseInteger(params.get("year")),
+    metric,
+    housingType:
+      findKey(
+        HOUSING_TYPES.map((t) => t.value),
+        params.get("type")
+      ) ?? DEFAULT_HOUSING_TYPE,
+    level:
+      findKey(
+        AGGREGATION_LEVELS.map((l) => l.value),
+        params.get("level")
+      ) ?? "municipality",
+    weatherCorrected: params.get("weather") === "1",
+    forecast:
+      findKey(
+        FORECAST_MODELS.map((m) => m.value),
+        params.get("forecast")
+      ) ?? null,
+    classification: {
+      method:
+        findKey<ClassificationMethod>(
+          CLASSIFICATION_METHODS.map((m) => m.value),
+          params.get("classes")
+        ) ?? DEFAULT_CLASSIFICATION.method,
+      classCount:
+        classCount !== null && classCount >= MIN_CLASS_COUNT && classCount <= MAX_CLASS_COUNT
+          ? classCount
+          : DEFAULT_CLASSIFICATION.classCount,
+      palette: findKey<SequentialPalette>(PALETTES, params.get("palette")) ?? null,
+      scale: params.get("scale") === "all" ? "all" : DEFAULT_CLASSIFICATION.scale,
+    },
+    mode: params.get("mode") === "change" ? "change" : "value",
+    change:
+      from !== null && to !== null
+        ? { fromYear: from, toYear: to, unit: params.get("unit") === "abs" ? "absolute" : "percent" }
+        : null,
+    viewport: parseViewport(params),
+    selected: selected && STATCODE_PATTERN.test(selected) ? selected : null,
+    covariate: params.get("cov") || null,
+  };
+}
+
+export function toMapSearchParams(state: MapUrlState): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (state.year !== null) params.set("year", String(state.year));
+  if (state.metric !== DEFAULT_METRIC) params.set("metric", METRIC_PARAMS[state.metric]);
+  if (state.housingType !== DEFAULT_HOUSING_TYPE) params.set("type", state.housingType);
+  if (state.level !== "municipality") params.set("level", state.level);
+  if (state.weatherCorrected) params.set("weather", "1");
+  if (state.forecast) params.set("forecast", state.forecast);
+
+  const { method, classCount, palette, scale } = state.classification;
+  if (method !== DEFAULT_CLASSIFICATION.method) params.set("classes", method);
+  if (classCount !== DEFAULT_CLASSIFICATION.classCount) params.set("k", String(classCount));
+  if (palette) params.set("palette", palette);
+  if (scale !== DEFAULT_CLASSIFICATION.scale) params.set("scale", scale);
+
+  if (state.mode === "change") params.set("mode", "change");
+  if (state.change) {
+    params.set("from", String(state.change.fromYear));
+    params.set("to", String(state.change.toYear));
+    if (state.change.unit === "absolute") params.set("unit", "abs");
+  }
+
+  if (state.viewport) {
+    const [lat, lng] = state.viewport.center;
+    params.set("z", String(state.viewport.zoom));
+    params.set("c", `${lat.toFixed(4)},${lng.toFixed(4)}`);
+  }
+  if (state.selected) params.set("sel", state.selected);
+  if (state.covariate) params.set("cov", state.covariate);
+
+  return params;
+}
@@ -0,0 +1,663 @@
+import type {
+  CovariateFile,
+  GasConsumptionData,
+  HeatingDegreeDays,
+  HousingType,
+  Metric,
+  ModelPredictionFile,
+  MunicipalityGeoJSON,
+  ShapFile,
+} from "../types";
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export class DataLoadError extends Error {
+  readonly url: string;
+
+  constructor(url: string, message: string) {
+    super(message);
+    this.name = "DataLoadError";
+    this.url = url;
+  }
+}
+
+// The file could not be fetched: network failure or a non-2xx response.
+export class DataFetchError extends DataLoadError {
+  readonly status: number | null;
+
+  constructor(url: string, status: number | null) {
+    super(
+      url,
+      status === null ? `Could not reach ${url}` : `Loading ${url} failed with HTTP ${status}`
+    );
+    this.name = "DataFetchError";
+    this.status = status;
+  }
+}
+
+// The file was fetched but is not valid JSON or does not match the schema.
+export class DataValidationError extends DataLoadError {
+  readonly issues: ValidationIssue[];
+
+  constructor(url: string, issues: ValidationIssue[]) {
+    super(url, `${url} is not in the expected format (${issues.length} problem(s) found)`);
+    this.name = "DataValidationError";
+    this.issues = issues;
+  }
+}
+
+// Stop collecting after this many issues; a wrong file fails on every record.
+const MAX_ISSUES = 20;
+
+const MIN_YEAR = 2000;
+
+const HOUSING_TYPE_KEYS: Record<HousingType, true> = {
+  total: true,
+  apartment: true,
+  terraced: true,
+  corner: true,
+  semi_detached: true,
+  detached: true,
+  owner_occupied: true,
+  rental: true,
+};
+
+const OPTIONAL_METRICS: Exclude<Metric, "gas_consumption">[] = [
+  "electricity_delivery",
+  "net_electricity_delivery",
+  "district_heating_share",
+];
+
+const STATCODE_PATTERN = /^GM\d{4}$/;
+
+const GEOMETRY_TYPES = new Set(["Polygon", "MultiPolygon"]);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+class IssueCollector {
+  readonly issues: ValidationIssue[] = [];
+
+  add(path: string, message: string) {
+    if (this.issues.length < MAX_ISSUES) {
+      this.issues.push({ path, message });
+    }
+  }
+
+  get full(): boolean {
+    return this.issues.length >= MAX_ISSUES;
+  }
+}
+
+const REGION_LEVELS = new Set(["province", "landsdeel"]);
+
+// The data build leaves out optional metrics without a value; see
+// fillOptionalMetrics
+function validateOptionalMetrics(
+  record: Record<string, unknown>,
+  path: string,
+  issues: IssueCollector
+) {
+  for (const metric of OPTIONAL_METRICS) {
+    const value = record[metric];
+    if (value !== undefined && value !== null && !isFiniteNumber(value)) {
+      issues.add(`${path}.${metric}`, "must be a number or null");
+    }
+  }
+}
+
+// Restores optional metrics left out of the file as null
+function fillOptionalMetrics(records: unknown) {
+  if (!Array.isArray(records)) return;
+  for (const record of records as Record<string, unknown>[]) {
+    for (const metric of OPTIONAL_METRICS) record[metric] ??= null;
+  }
+}
+
+// Year, housing type and metrics shared by regional and national averages
+function validateAverageValues(
+  record: Record<string, unknown>,
+  path: string,
+  issues: IssueCollector
+) {
+  if (!Number.isInteger(record.year)) {
+    issues.add(`${path}.year`, "must be a whole year");
+  }
+  if (typeof record.housing_type !== "string" || !(record.housing_type in HOUSING_TYPE_KEYS)) {
+    issues.add(`${path}.housing_type`, `unknown housing type ${JSON.stringify(record.housing_type)}`);
+  }
+  if (record.gas_consumption !== null && !isFiniteNumber(record.gas_consumption)) {
+    issues.add(`${path}.gas_consumption`, "must be a number or null");
+  }
+  validateOptionalMetrics(record, path, issues);
+}
+
+function validateNationalRecord(record: unknown, path: string, issues: IssueCollector) {
+  if (!isObject(record)) {
+    issues.add(path, "must be an object");
+    return;
+  }
+  validateAverageValues(record, path, issues);
+}
+
+function validateRegionalRecord(record: unknown, path: string, issues: IssueCollector) {
+  if (!isObject(record)) {
+    issues.add(path, "must be an object");
+    return;
+  }
+
+  if (typeof record.level !== "string" || !REGION_LEVELS.has(record.level)) {
+    issues.add(`${path}.level`, 'must be "province" or "landsdeel"');
+  }
+  if (typeof record.region !== "string" || record.region === "") {
+    issues.add(`${path}.region`, "must be a non-empty string");
+  }
+  validateAverageValues(record, path, issues);
+}
+
+function validateRecord(record: unknown, path: string, issues: IssueCollector) {
+  if (!isObject(record)) {
+    issues.add(path, "must be an object");
+    return;
+  }
+
+  if (typeof record.municipality !== "string" || record.municipality === "") {
+    issues.add(`${path}.municipality`, "must be a non-empty string");
+  }
+  if (
+    record.statcode !== null &&
+    (typeof record.statcode !== "string" || !STATCODE_PATTERN.test(record.statcode))
+  ) {
+    issues.add(`${path}.statcode`, "must be a GM code such as GM0363, or null");
+  }
+
+  const maxYear = new Date().getFullYear();
+  if (
+    !Number.isInteger(record.year) ||
+    (record.year as number) < MIN_YEAR ||
+    (record.year as number) > maxYear
+  ) {
+    issues.add(`${path}.year`, `must be a whole year between ${MIN_YEAR} and ${maxYear}`);
+  }
+  if (typeof record.housing_type !== "string" || !(record.housing_type in HOUSING_TYPE_KEYS)) {
+    issues.add(`${path}.housing_type`, `unknown housing type ${JSON.stringify(record.housing_type)}`);
+  }
+
+  if (!isFiniteNumber(record.gas_consumption)) {
+    issues.add(`${path}.gas_consumption`, "must be a number");
+  }
+  validateOptionalMetrics(record, path, issues);
+
+  if (
+    record.imputed_from !== undefined &&
+    (!Array.isArray(record.imputed_from) ||
+      !record.imputed_from.every((name) => typeof name === "string"))
+  ) {
+    issues.add(`${path}.imputed_from`, "must be a list of municipality names");
+  }
+  if (
+    record.dwellings !== undefined &&
+    (!Number.isInteger(record.dwellings) || (record.dwellings as number) < 0)
+  ) {
+    issues.add(`${path}.dwellings`, "must be a whole number of dwellings");
+  }
+}
+
+export function parseGasConsumptionData(value: unknown, url: string): GasConsumptionData {
+  const issues = new IssueCollector();
+
+  if (!isObject(value)) {
+    issues.add("", "must be an object with metadata and data");
+  } else {
+    if (!isObject(value.metadata)) {
+      issues.add("metadata", "must be an object");
+    } else if (!isObject(value.metadata.units)) {
+      issues.add("metadata.units", "must be an object");
+    }
+
+    if (!Array.isArray(value.data)) {
+      issues.add("data", "must be a list of records");
+    } else if (value.data.length === 0) {
+      issues.add("data", "contains no records");
+    } else {
+      for (let i = 0; i < value.data.length && !issues.full; i++) {
+        validateRecord(value.data[i], `data[${i}]`, issues);
+      }
+    }
+
+    // Optional so data files built before regional averages still load
+    const regional = value.regional_averages;
+    if (regional !== undefined) {
+      if (!Array.isArray(regional)) {
+        issues.add("regional_averages", "must be a list of records");
+      } else {
+        for (let i = 0; i < regional.length && !issues.full; i++) {
+          validateRegionalRecord(regional[i], `regional_averages[${i}]`, issues);
+        }
+      }
+    }
+
+    const national = value.national_averages;
+    if (national !== undefined) {
+      if (!Array.isArray(national)) {
+        issues.add("national_averages", "must be a list of records");
+      } else {
+        for (let i = 0; i < national.length && !issues.full; i++) {
+          validateNationalRecord(national[i], `national_averages[${i}]`, issues);
+        }
+      }
+    }
+  }
+
+  if (issues.issues.length > 0) {
+    throw new DataValidationError(url, issues.issues);
+  }
+  const data = value as unknown as GasConsumptionData;
+  fillOptionalMetrics(data.data);
+  fillOptionalMetrics(data.regional_averages);
+  fillOptionalMetrics(data.national_averages);
+  return data;
+}
+
+export function parseMunicipalityGeoJSON(value: unknown, url: string): MunicipalityGeoJSON {
+  const issues = new IssueCollector();
+
+  if (!isObject(value) || value.type !== "FeatureCollection") {
+    issues.add("type", 'must be "FeatureCollection"');
+  } else if (!Array.isArray(value.features) || value.features.length === 0) {
+    issues.add("features", "must be a non-empty list of features");
+  } else {
+    for (let i = 0; i < value.features.length && !issues.full; i++) {
+      const feature: unknown = value.features[i];
+      const path = `features[${i}]`;
+
+      if (!isObject(feature)) {
+        issues.add(path, "must be an object");
+        continue;
+      }
+      if (
+        !isObject(feature.properties) ||
+        typeof feature.properties.statcode !== "string" ||
+        typeof feature.properties.statnaam !== "string"
+      ) {
+        issues.add(`${path}.properties`, "must contain statcode and statnaam");
+      }
+      if (
+        !isObject(feature.geometry) ||
+        typeof feature.geometry.type !== "string" ||
+        !GEOMETRY_TYPES.has(feature.geometry.type) ||
+        !Array.isArray(feature.geometry.coordinates)
+      ) {
+        issues.add(`${path}.geometry`, "must be a Polygon or MultiPolygon");
+      }
+    }
+  }
+
+  if (issues.issues.length > 0) {
+    throw new DataValidationError(url, issues.issues);
+  }
+  return value as unknown as MunicipalityGeoJSON;
+}
+
+function validateYearTable(table: unknown, path: string, issues: IssueCollector) {
+  if (!isObject(table) || Object.keys(table).length === 0) {
+    issues.add(path, "must map years to degree days");
+    return;
+  }
+  for (const [year, value] of Object.entries(table)) {
+    if (!/^\d{4}$/.test(year)) {
+      issues.add(`${path}.${year}`, "key must be a year");
+    } else if (!isFiniteNumber(value) || value <= 0) {
+      issues.add(`${path}.${year}`, "must be a positive number");
+    }
+  }
+}
+
+export function parseHeatingDegreeDays(value: unknown, url: string): HeatingDegreeDays {
+  const issues = new IssueCollector();
+
+  if (!isObject(value)) {
+    issues.add("", "must be an object with metadata and national degree days");
+  } else {
+    if (!isObject(value.metadata) || !isFiniteNumber(value.metadata.base_temperature)) {
+      issues.add("metadata.base_temperature", "must be a number");
+    } else {
+      const share = value.metadata.weather_dependent_share;
+      if (share !== undefined && (!isFiniteNumber(share) || share < 0 || share > 1)) {
+        issues.add("metadata.weather_dependent_share", "must be between 0 and 1");
+      }
+    }
+
+    validateYearTable(value.national, "national", issues);
+
+    if (value.stations !== undefined) {
+      if (!isObject(value.stations)) {
+        issues.add("stations", "must be an object keyed by station number");
+      } else {
+        for (const [station, entry] of Object.entries(value.stations)) {
+          validateYearTable(isObject(entry) ? entry.hdd : undefined, `stations.${station}.hdd`, issues);
+        }
+      }
+    }
+
+    if (value.municipality_stations !== undefined) {
+      if (!isObject(value.municipality_stations)) {
+        issues.add("municipality_stations", "must map statcodes to station numbers");
+      } else {
+        for (const [statcode, station] of Object.entries(value.municipality_stations)) {
+          if (!STATCODE_PATTERN.test(statcode) || typeof station !== "string") {
+            issues.add(`municipality_stations.${statcode}`, "must map a GM code to a station number");
+          } else if (!isObject(value.stations) || !(station in value.stations)) {
+            issues.add(`municipality_stations.${statcode}`, `unknown station ${station}`);
+          }
+        }
+      }
+    }
+  }
+
+  if (issues.issues.length > 0) {
+    throw new DataValidationError(url, issues.issues);
+  }
+  return value as unknown as HeatingDegreeDays;
+}
+
+function validatePrediction(record: unknown, path: string, issues: IssueCollector) {
+  if (!isObject(record)) {
+    issues.add(path, "must be an object");
+    return;
+  }
+
+  if (typeof record.statcode !== "string" || !STATCODE_PATTERN.test(record.statcode)) {
+    issues.add(`${path}.statcode`, "must be a GM code such as GM0363");
+  }
+  if (!Number.isInteger(record.year) || (record.year as number) < MIN_YEAR) {
+    issues.add(`${path}.year`, `must be a whole year from ${MIN_YEAR}`);
+  }
+  if (typeof record.model !== "string" || record.model === "") {
+    issues.add(`${path}.model`, "must be a non-empty string");
+  }
+  if (!isFiniteNumber(record.predicted)) {
+    issues.add(`${path}.predicted`, "must be a number");
+  }
+  for (const bound of ["lower", "upper"]) {
+    if (record[bound] !== undefined && !isFiniteNumber(record[bound])) {
+      issues.add(`${path}.${bound}`, "must be a number when present");
+    }
+  }
+  if (
+    isFiniteNumber(record.lower) &&
+    isFiniteNumber(record.upper) &&
+    record.lower > record.upper
+  ) {
+    issues.add(`${path}.lower`, "must not exceed upper");
+  }
+}
+
+export function parseModelPredictions(value: unknown, url: string): ModelPredictionFile {
+  const issues = new IssueCollector();
+
+  if (!isObject(value)) {
+    issues.add("", "must be an object with a list of predictions");
+  } else {
+    const { metadata } = value;
+    if (metadata !== undefined) {
+      if (!isObject(metadata)) {
+        issues.add("metadata", "must be an object");
+      } else {
+        const metrics: unknown[] = ["gas_consumption", ...OPTIONAL_METRICS];
+        if (metadata.metric !== undefined && !metrics.includes(metadata.metric)) {
+          issues.add("metadata.metric", `unknown metric ${JSON.stringify(metadata.metric)}`);
+        }
+        const housingType = metadata.housing_type;
+        if (
+          housingType !== undefined &&
+          (typeof housingType !== "string" || !(housingType in HOUSING_TYPE_KEYS))
+        ) {
+          issues.add("metadata.housing_type", `unknown housing type ${JSON.stringify(housingType)}`);
+        }
+      }
+    }
+
+    if (!Array.isArray(value.predictions)) {
+      issues.add("predictions", "must be a list of predictions");
+    } else if (value.predictions.length === 0) {
+      issues.add("predictions", "contains no predictions");
+    } else {
+      for (let i = 0; i < value.predictions.length && !issues.full; i++) {
+        validatePrediction(value.predictions[i], `predictions[${i}]`, issues);
+      }
+    }
+  }
+
+  if (issues.issues.length > 0) {
+    throw new DataValidationError(url, issues.issues);
+  }
+  return value as unknown as ModelPredictionFile;
+}
+
+function validateExplanation(record: unknown, path: string, issues: IssueCollector) {
+  if (!isObject(record)) {
+    issues.add(path, "must be an object");
+    return;
+  }
+
+  if (typeof record.statcode !== "string" || !STATCODE_PATTERN.test(record.statcode)) {
+    issues.add(`${path}.statcode`, "must be a GM code such as GM0363");
+  }
+  if (!Number.isInteger(record.year) || (record.year as number) < MIN_YEAR) {
+    issues.add(`${path}.year`, `must be a whole year from ${MIN_YEAR}`);
+  }
+  if (!isObject(record.shap) || Object.keys(record.shap).length === 0) {
+    issues.add(`${path}.shap`, "must map feature names to SHAP values");
+  } else {
+    for (const [feature, value] of Object.entries(record.shap)) {
+      if (!isFiniteNumber(value)) issues.add(`${path}.shap.${feature}`, "must be a number");
+    }
+  }
+  if (record.features !== undefined) {
+    if (!isObject(record.features)) {
+      issues.add(`${path}.features`, "must map feature names to values");
+    } else {
+      for (const [feature, value] of Object.entries(record.features)) {
+        if (value !== null && !isFiniteNumber(value)) {
+          issues.add(`${path}.features.${feature}`, "must be a number or null");
+        }
+      }
+    }
+  }
+}
+
+export function parseShapValues(value: unknown, url: string): ShapFile {
+  const issues = new IssueCollector();
+
+  if (!isObject(value)) {
+    issues.add("", "must be an object with a base value and a list of explanations");
+  } else {
+    const { metadata } = value;
+    if (metadata !== undefined) {
+      if (!isObject(metadata)) {
+        issues.add("metadata", "must be an object");
+      } else {
+        const metrics: unknown[] = ["gas_consumption", ...OPTIONAL_METRICS];
+        if (metadata.model !== undefined && typeof metadata.model !== "string") {
+          issues.add("metadata.model", "must be a string");
+        }
+        if (metadata.metric !== undefined && !metrics.includes(metadata.metric)) {
+          issues.add("metadata.metric", `unknown metric ${JSON.stringify(metadata.metric)}`);
+        }
+        const housingType = metadata.housing_type;
+        if (
+          housingType !== undefined &&
+          (typeof housingType !== "string" || !(housingType in HOUSING_TYPE_KEYS))
+        ) {
+          issues.add("metadata.housing_type", `unknown housing type ${JSON.stringify(housingType)}`);
+        }
+        const labels = metadata.feature_labels;
+        if (
+          labels !== undefined &&
+          (!isObject(labels) || !Object.values(labels).every((l) => typeof l === "string"))
+        ) {
+          issues.add("metadata.feature_labels", "must map feature names to labels");
+        }
+      }
+    }
+
+    if (!isFiniteNumber(value.base_value)) {
+      issues.add("base_value", "must be a number");
+    }
+
+    if (!Array.isArray(value.explanations)) {
+      issues.add("explanations", "must be a list of explanations");
+    } else if (value.explanations.length === 0) {
+      issues.add("explanations", "contains no explanations");
+    } else {
+      for (let i = 0; i < value.explanations.length && !issues.full; i++) {
+        validateExplanation(value.explanations[i], `explanations[${i}]`, issues);
+      }
+    }
+  }
+
+  if (issues.issues.length > 0) {
+    throw new DataValidationError(url, issues.issues);
+  }
+  return value as unknown as ShapFile;
+}
+
+// The list of prediction and SHAP files to load, relative to the manifest
+export function parseModelManifest(value: unknown, url: string): string[] {
+  if (
+    !isObject(value) ||
+    !Array.isArray(value.files) ||
+    !value.files.every((file) => typeof file === "string" && file !== "")
+  ) {
+    throw new DataValidationError(url, [
+      { path: "files", message: "must be a list of file names" },
+    ]);
+  }
+  return value.files as string[];
+}
+
+const COVARIATE_TEXT_FIELDS = ["label", "unit", "description", "source"];
+
+function validateCovariateMetadata(metadata: unknown, path: string, issues: IssueCollector) {
+  if (!isObject(metadata)) {
+    issues.add(path, "must be an object");
+    return;
+  }
+  if (metadata.source !== undefined && typeof metadata.source !== "string") {
+    issues.add(`${path}.source`, "must be a string");
+  }
+  if (metadata.covariates === undefined) return;
+  if (!isObject(metadata.covariates)) {
+    issues.add(`${path}.covariates`, "must describe covariates by column name");
+    return;
+  }
+  for (const [key, definition] of Object.entries(metadata.covariates)) {
+    const entryPath = `${path}.covariates.${key}`;
+    if (!isObject(definition)) {
+      issues.add(entryPath, "must be an object");
+      continue;
+    }
+    for (const field of COVARIATE_TEXT_FIELDS) {
+      if (definition[field] !== undefined && typeof definition[field] !== "string") {
+        issues.add(`${entryPath}.${field}`, "must be a string");
+      }
+    }
+    const { decimals } = definition;
+    if (
+      decimals !== undefined &&
+      (!Number.isInteger(decimals) || (decimals as number) < 0 || (decimals as number) > 6)
+    ) {
+      issues.add(`${entryPath}.decimals`, "must be a whole number from 0 to 6");
+    }
+  }
+}
+
+function validateCovariateRecord(record: unknown, path: string, issues: IssueCollector) {
+  if (!isObject(record)) {
+    issues.add(path, "must be an object");
+    return;
+  }
+
+  for (const [key, value] of Object.entries(record)) {
+    if (key === "statcode") {
+      if (typeof value !== "string" || !STATCODE_PATTERN.test(value)) {
+        issues.add(`${path}.statcode`, "must be a GM code such as GM0363");
+      }
+    } else if (key === "year") {
+      if (!Number.isInteger(value) || (value as number) < MIN_YEAR) {
+        issues.add(`${path}.year`, `must be a whole year from ${MIN_YEAR}`);
+      }
+    } else if (value !== null && !isFiniteNumber(value)) {
+      issues.add(`${path}.${key}`, "must be a number or empty");
+    }
+  }
+  if (!("statcode" in record)) issues.add(`${path}.statcode`, "is missing");
+  if (!("year" in record)) issues.add(`${path}.year`, "is missing");
+}
+
+// Covariate files, from JSON or converted from CSV rows
+export function parseCovariates(value: unknown, url: string): CovariateFile {
+  const issues = new IssueCollector();
+
+  if (!isObject(value)) {
+    issues.add("", "must be an object with a list of records");
+  } else {
+    if (value.metadata !== undefined) {
+      validateCovariateMetadata(value.metadata, "metadata", issues);
+    }
+    if (!Array.isArray(value.records)) {
+      issues.add("records", "must be a list of records");
+    } else if (value.records.length === 0) {
+      issues.add("records", "contains no records");
+    } else {
+      for (let i = 0; i < value.records.length && !issues.full; i++) {
+        validateCovariateRecord(value.records[i], `records[${i}]`, issues);
+      }
+    }
+  }
+
+  if (issues.issues.length > 0) {
+    throw new DataValidationError(url, issues.issues);
+  }
+  return value as unknown as CovariateFile;
+}
+
+// Covariate files to load: names relative to the manifest, or objects with
+// the name and the metadata a CSV file cannot carry itself
+export function parseCovariateManifest(
+  value: unknown,
+  url: string
+): { file: string; metadata?: CovariateFile["metadata"] }[] {
+  const issues = new IssueCollector();
+
+  if (!isObject(value) || !Array.isArray(value.files)) {
+    issues.add("files", "must be a list of files");
+  } else {
+    value.files.forEach((entry: unknown, i: number) => {
+      if (typeof entry === "string" && entry !== "") return;
+      if (!isObject(entry) || typeof entry.file !== "string" || entry.file === "") {
+        issues.add(`files[${i}]`, "must be a file name or an object with a file name");
+      } else if (entry.metadata !== undefined) {
+        validateCovariateMetadata(entry.metadata, `files[${i}].metadata`, issues);
+      }
+    });
+  }
+
+  if (issues.issues.length > 0) {
+    throw new DataValidationError(url, issues.issues);
+  }
+  return (value as { files: unknown[] }).files.map((entry) =>
+    typeof entry === "string"
+      ? { file: entry }
+      : (entry as { file: string; metadata?: CovariateFile["metadata"] })
+  );
+}
@@ -0,0 +1,48 @@
+import type { GasConsumptionRecord, HeatingDegreeDays, Metric } from "../types";
+
+// Only gas is used for space heating; the other metrics are never corrected.
+export const WEATHER_DEPENDENT_METRICS: Metric[] = ["gas_consumption"];
+
+export function isWeatherDependent(metric: Metric): boolean {
+  return WEATHER_DEPENDENT_METRICS.includes(metric);
+}
+
+// Degree days for a municipality, from its mapped KNMI station when the table
+// has one for that year and from the national series otherwise.
+export function getHeatingDegreeDays(
+  hdd: HeatingDegreeDays,
+  statcode: string | null,
+  year: number
+): number | null {
+  const station = statcode ? hdd.municipality_stations?.[statcode] : undefined;
+  const stationValue = station ? hdd.stations?.[station]?.hdd[year] : undefined;
+  return stationValue ?? hdd.national[year] ?? null;
+}
+
+// The average national year in the table is the "normal" year that all
+// corrected values are expressed in.
+export function getReferenceDegreeDays(hdd: HeatingDegreeDays): number {
+  const values = Object.values(hdd.national);
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+export type WeatherCorrection = (
+  record: Pick<GasConsumptionRecord, "statcode" | "year">,
+  value: number
+) => number | null;
+
+// Degree-day method: the temperature-dependent share of consumption is scaled
+// by reference / actual degree days. Returns null for years without degree
+// days, which are left out of corrected views.
+export function createWeatherCorrection(hdd: HeatingDegreeDays): WeatherCorrection {
+  const reference = getReferenceDegreeDays(hdd);
+  const share = hdd.metadata.weather_dependent_share ?? 1;
+
+  return (record, value) => {
+    const degreeDays = getHeatingDegreeDays(hdd, record.statcode, record.year);
+    if (!degreeDays) return null;
+
+    const corrected = value * (share * (reference / degreeDays) + (1 - share));
+    return Math.round(corrected * 10) / 10;
+  };
+}